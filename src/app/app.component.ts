@@ -295,18 +295,17 @@ export class AppComponent implements OnInit {
     console.log(`Hint level 1 for "${firstQuestion.correctAnswer}": ${hint1}`);
     console.log(`Hint level 2 for "${firstQuestion.correctAnswer}": ${hint2}`);
 
-    // Test partial correctness
-    const partialCorrect = this.quizService.isPartiallyCorrect(
+    // Test error classification
+    const classification = this.quizService.classifyAnswer(
       firstQuestion,
       firstQuestion.correctAnswer.substring(0, 3)
     );
     console.log(
-      `Is "${firstQuestion.correctAnswer.substring(
+      `Classification of "${firstQuestion.correctAnswer.substring(
         0,
         3
-      )}" partially correct for "${
-        firstQuestion.correctAnswer
-      }"? ${partialCorrect}`
+      )}" for "${firstQuestion.correctAnswer}":`,
+      classification
     );
   }
 
@@ -451,7 +450,7 @@ export class AppComponent implements OnInit {
     console.log('🧪 Testing History Service...');
 
     // First ensure we have some test data
-    const historyService = new HistoryService(this.storageService);
+    const historyService = this.historyService;
 
     // Get full history
     const allHistory = historyService.getHistory();
@@ -512,6 +511,39 @@ export class AppComponent implements OnInit {
       );
     });
 
+    // Imperative, reported apart from the tenses
+    console.log(
+      `📈 Imperative: ${stats.imperative.correctAnswers}/${stats.imperative.totalQuestions} (${stats.imperative.percentage}%)`
+    );
+    Object.keys(stats.imperative.byPerson).forEach((person) => {
+      const data = stats.imperative.byPerson[person];
+      console.log(
+        `  ${person}: ${data.correctAnswers}/${data.totalQuestions} (${data.percentage}%)`
+      );
+    });
+
+    // Principal parts, per part
+    console.log(
+      `📈 Principal Parts: ${stats.principalParts.correctAnswers}/${stats.principalParts.totalQuestions} (${stats.principalParts.percentage}%)`
+    );
+    Object.keys(stats.principalParts.byPart).forEach((part) => {
+      const data = stats.principalParts.byPart[part];
+      console.log(
+        `  ${part}: ${data.correctAnswers}/${data.totalQuestions} (${data.percentage}%)`
+      );
+    });
+
+    // haben/sein drills, by the right auxiliary
+    console.log(
+      `📈 haben/sein: ${stats.auxiliary.correctAnswers}/${stats.auxiliary.totalQuestions} (${stats.auxiliary.percentage}%)`
+    );
+    Object.keys(stats.auxiliary.byAuxiliary).forEach((auxiliary) => {
+      const data = stats.auxiliary.byAuxiliary[auxiliary];
+      console.log(
+        `  ${auxiliary}: ${data.correctAnswers}/${data.totalQuestions} (${data.percentage}%)`
+      );
+    });
+
     // Statistics by verb type
     console.log('📈 Performance by Verb Type:');
     Object.keys(stats.byVerbType).forEach((type) => {
@@ -13,6 +13,7 @@ import {
 import { authGuard } from './core/guards/auth.guard';
 import { dataLoadedGuard } from './core/guards/data-loaded.guard';
 import { adminGuard } from './core/guards/admin.guard';
+import { quizExitGuard } from './core/guards/quiz-exit.guard';
 
 export const routes: Routes = [
   {
@@ -35,6 +36,7 @@ export const routes: Routes = [
     path: 'quiz',
     component: QuizContainerComponent,
     canActivate: [authGuard, dataLoadedGuard],
+    canDeactivate: [quizExitGuard],
     data: { title: 'Take Quiz' },
   },
   {
@@ -60,6 +62,7 @@ export const routes: Routes = [
       {
         path: 'test',
         component: VocabQuizTestComponent,
+        canDeactivate: [quizExitGuard],
         data: { title: 'Vocabulary Quiz' },
       },
       {
@@ -1,3 +1,4 @@
 export * from './auth.guard';
 export * from './data-loaded.guard';
 export * from './admin.guard';
+export * from './quiz-exit.guard';
@@ -0,0 +1,11 @@
+import { CanDeactivateFn } from '@angular/router';
+
+/**
+ * A quiz page that asks before the user leaves an unfinished quiz
+ */
+export interface QuizExitAware {
+  canExitQuiz(): boolean;
+}
+
+export const quizExitGuard: CanDeactivateFn<QuizExitAware> = (component) =>
+  component.canExitQuiz();
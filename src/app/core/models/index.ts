@@ -4,3 +4,5 @@ export * from './question.model';
 export * from './test-result.model';
 export * from './sync.model';
 export * from './statistics.model';
+export * from './review-schedule.model';
+export * from './sentence-template.model';
@@ -0,0 +1,20 @@
+/**
+ * Spaced-repetition state for a single verb × tense × person cell.
+ * Updated with the SM-2 algorithm every time the cell is answered.
+ */
+export interface ReviewItem {
+  verb: string; // Infinitive
+  tense: string;
+  person: string;
+  easeFactor: number; // SM-2 ease factor (>= 1.3)
+  intervalDays: number; // Current review interval in days
+  repetitions: number; // Consecutive correct reviews
+  lapses: number; // Number of times the cell was forgotten
+  dueDate: string; // ISO date when the cell should be reviewed again
+  lastReviewed: string; // ISO date of the last answer
+}
+
+/**
+ * Review items keyed by "verb|tense|person"
+ */
+export type ReviewSchedule = Record<string, ReviewItem>;
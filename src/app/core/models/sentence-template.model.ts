@@ -0,0 +1,13 @@
+/**
+ * Sentence frame for cloze questions
+ * Slots: {subject}, {verb} for single-word forms, {aux} and
+ * {participle} for compound tenses, and an optional {complement}
+ */
+export interface SentenceTemplate {
+  id?: string;
+  tense: string;
+  person: string;
+  text: string; // e.g. "Gestern {aux} {subject} {complement} {participle}."
+  complement?: string; // Fills {complement}, e.g. "ins Kino"
+  verbs?: string[]; // Only for these infinitives (any verb if empty)
+}
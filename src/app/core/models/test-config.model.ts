@@ -1,3 +1,33 @@
+export type QuizSelectionMode =
+  'random' | 'due-reviews' | 'weak-spots' | 'adaptive';
+
+export type SamplingStrategy = 'uniform' | 'balanced' | 'one-per-verb';
+
+export type AnswerStrictness = 'strict' | 'lenient-transliteration' | 'swiss';
+
+export type QuestionType =
+  | 'typed'
+  | 'multiple-choice'
+  | 'reverse'
+  | 'table'
+  | 'cloze'
+  | 'imperative'
+  | 'principal-parts'
+  | 'auxiliary'
+  | 'clause';
+
+export type ClauseType = 'main' | 'subordinate';
+
+export type Voice = 'aktiv' | 'vorgangspassiv' | 'zustandspassiv';
+
+/**
+ * Speed-run limits; either may be left out
+ */
+export interface QuizTimeLimit {
+  perQuestionSeconds?: number; // Countdown for each question
+  totalSeconds?: number; // Budget for the whole quiz
+}
+
 export interface TestConfig {
   tenses: string[];
   verbTypes: string[];
@@ -5,6 +35,15 @@ export interface TestConfig {
   questionCount: number;
   difficultyLevels?: number[];
   specificVerbs?: string[];
+  selectionMode?: QuizSelectionMode; // How verb/tense/person cells are picked
+  sampling?: SamplingStrategy; // How random cells are spread; uniform when missing
+  answerStrictness?: AnswerStrictness; // Spelling rules used when grading
+  questionType?: QuestionType; // How each question is asked
+  voices?: Voice[]; // Active and/or passive forms; active when missing
+  seed?: number; // Random seed; the same seed regenerates the same quiz
+  timeLimit?: QuizTimeLimit; // Speed-run mode; untimed when missing
+  maxMistakes?: number; // Survival mode: endless quiz ending at this many mistakes
+  hintPenalty?: number; // Points off a correct answer per hint level; none when missing
 }
 
 export const DEFAULT_TEST_CONFIG: TestConfig = {
@@ -13,4 +52,10 @@ export const DEFAULT_TEST_CONFIG: TestConfig = {
   persons: ['ich', 'du', 'er'],
   questionCount: 10,
   difficultyLevels: [1, 2, 3],
+  selectionMode: 'random',
+  sampling: 'balanced',
+  answerStrictness: 'strict',
+  questionType: 'typed',
+  voices: ['aktiv'],
+  hintPenalty: 0.25,
 };
@@ -1,16 +1,60 @@
 // Update e:\Projects\Angular\German Verbs\german-verb-trainer\src\app\core\models\test-result.model.ts
 
-import { TestConfig } from './test-config.model';
+import {
+  ClauseType,
+  QuestionType,
+  TestConfig,
+  Voice,
+} from './test-config.model';
+import { PrincipalPart } from './verb.model';
+
+export type ConjugationErrorCategory =
+  | 'missing-umlaut'
+  | 'wrong-ending'
+  | 'wrong-auxiliary'
+  | 'wrong-participle'
+  | 'missing-stem-change'
+  | 'separable-prefix'
+  | 'reflexive-pronoun'
+  | 'other-form'
+  | 'unknown';
+
+/**
+ * Where a multiple-choice option came from
+ */
+export type ChoiceSource =
+  | 'correct'
+  | 'other-person'
+  | 'other-tense'
+  | 'weak-ending'
+  | 'missing-umlaut'
+  | 'other-auxiliary';
 
 export interface Answer {
   verb: string;
   tense: string;
   person: string;
+  voice?: Voice; // Passive voice; active when missing
   correctAnswer: string;
   userAnswer: string;
   isCorrect: boolean;
   verb_type: string;
   difficulty_level: number;
+  errorCategory?: ConjugationErrorCategory; // Set for wrong, non-empty answers
+  acceptedLeniently?: boolean; // Correct only under a lenient spelling rule
+  questionType?: QuestionType; // Defaults to 'typed' when missing
+  distractorSource?: ChoiceSource; // Which kind of distractor was picked
+  shownForm?: string; // Conjugated form shown in reverse questions
+  sentence?: string; // Completed sentence of a cloze question
+  clause?: ClauseType; // Clause asked for in clause questions
+  principalPart?: PrincipalPart; // Field of a principal parts question
+  adaptiveLevel?: number; // Difficulty level when asked (adaptive quizzes)
+  isRetry?: boolean; // Re-asked after a mistake (adaptive quizzes)
+  timedOut?: boolean; // Unanswered when the time ran out (speed runs)
+  hintLevel?: number; // Highest hint level shown; unaided when missing
+  shownAt?: string; // When the question was first shown (ISO)
+  firstInputAt?: string; // First keystroke or option picked (ISO)
+  answeredAt?: string; // When the answer was first given (ISO)
 }
 
 export interface VocabAnswer {
@@ -18,13 +62,17 @@ export interface VocabAnswer {
   correctAnswer: string;
   userAnswer: string;
   isCorrect: boolean;
+  acceptedLeniently?: boolean; // Correct only under a lenient spelling rule
 }
 
+// Survival runs have no fixed length, so they're kept apart in statistics
+export type TestType = 'conjugation' | 'vocabulary' | 'survival';
+
 export interface TestResult {
   id: string;
   user_id?: string | null;
   test_date: string;
-  test_type: 'conjugation' | 'vocabulary';
+  test_type: TestType;
   score: number;
   total_questions: number;
   percentage: number;
@@ -8,19 +8,157 @@ export interface Verb {
   difficulty_level: number;
   created_at: string;
   hint?: string;
+  imperative?: ImperativeForms; // Derived from the infinitive when missing
+  transitive?: boolean; // Takes a direct object; only these have a passive
+  prefix?: VerbPrefix; // Set by admins or the upload auto-detector
+  reflexive?: boolean; // Takes a reflexive pronoun: "sich waschen"
+  reflexive_case?: ReflexiveCase; // Accusative when missing
+  alternative_auxiliary?: AlternativeAuxiliary; // For verbs taking both
 }
 
 export type VerbType = 'weak' | 'strong' | 'irregular' | 'modal';
 
+export type PrefixType = 'separable' | 'inseparable';
+
+export type ReflexiveCase = 'accusative' | 'dative';
+
+export type Auxiliary = 'haben' | 'sein';
+
+/**
+ * A sentence showing which auxiliary a verb takes in one context
+ */
+export interface AuxiliaryContext {
+  auxiliary: Auxiliary;
+  sentence: string; // "Ich habe das Auto in die Garage gefahren."
+  explanation?: string; // "With a direct object, fahren takes haben"
+}
+
+/**
+ * Second perfekt auxiliary of verbs that take both (fahren, schwimmen);
+ * conjugations.perfekt holds the usual one
+ */
+export interface AlternativeAuxiliary {
+  auxiliary: Auxiliary;
+  contexts: AuxiliaryContext[]; // Sentences for either auxiliary
+}
+
+/**
+ * Reflexive pronouns by case and person; only ich and du differ
+ * between "ich wasche mich" and "ich putze mir die Zähne"
+ */
+export const REFLEXIVE_PRONOUNS: Record<
+  ReflexiveCase,
+  Record<string, string>
+> = {
+  accusative: {
+    ich: 'mich',
+    du: 'dich',
+    er: 'sich',
+    wir: 'uns',
+    ihr: 'euch',
+    sie: 'sich',
+    Sie: 'sich',
+  },
+  dative: {
+    ich: 'mir',
+    du: 'dir',
+    er: 'sich',
+    wir: 'uns',
+    ihr: 'euch',
+    sie: 'sich',
+    Sie: 'sich',
+  },
+};
+
+/**
+ * Verb prefix, e.g. separable "an" (anrufen) or inseparable "ver" (verstehen)
+ */
+export interface VerbPrefix {
+  prefix: string;
+  type: PrefixType;
+}
+
 export interface VerbConjugations {
   präsens?: PersonConjugations;
   präteritum?: PersonConjugations;
   perfekt?: PersonConjugations;
   plusquamperfekt?: PersonConjugations;
   futur?: PersonConjugations;
+  futur2?: PersonConjugations;
+  // Subjunctive mood (Konjunktiv)
+  konjunktiv1?: PersonConjugations; // Indirect speech: "er komme"
+  konjunktiv2?: PersonConjugations; // "er käme"
+  konjunktiv2past?: PersonConjugations; // "er wäre gekommen"
+  würde?: PersonConjugations; // "er würde kommen"
   [tense: string]: PersonConjugations | undefined;
 }
 
+/**
+ * Conjugation keys in the subjunctive mood; all others are indicative
+ */
+export const SUBJUNCTIVE_TENSES = [
+  'konjunktiv1',
+  'konjunktiv2',
+  'konjunktiv2past',
+  'würde',
+];
+
+/**
+ * Tenses that have passive forms (werden/sein + Partizip II)
+ */
+export const PASSIVE_TENSES = ['präsens', 'präteritum', 'perfekt'];
+
+/**
+ * Tense key and persons used for imperative questions and answers
+ */
+export const IMPERATIVE_TENSE = 'imperativ';
+export const IMPERATIVE_PERSONS: ImperativePerson[] = [
+  'du',
+  'ihr',
+  'wir',
+  'Sie',
+];
+
+export type ImperativePerson = 'du' | 'ihr' | 'wir' | 'Sie';
+
+/**
+ * Tense key and fields of principal parts (Stammformen) questions:
+ * "gehen – ging – ist gegangen"
+ */
+export const PRINCIPAL_PARTS_TENSE = 'stammformen';
+export const PRINCIPAL_PARTS: PrincipalPart[] = [
+  'präteritum',
+  'partizip',
+  'auxiliary',
+];
+
+export type PrincipalPart = 'präteritum' | 'partizip' | 'auxiliary';
+
+/**
+ * Tense key of haben/sein auxiliary questions
+ */
+export const AUXILIARY_TENSE = 'hilfsverb';
+
+/**
+ * Tense keys of drills that are reported apart from the real tenses
+ */
+export const DRILL_TENSES = [
+  IMPERATIVE_TENSE,
+  PRINCIPAL_PARTS_TENSE,
+  AUXILIARY_TENSE,
+];
+
+/**
+ * Imperative forms, which only exist for du, ihr, wir and Sie
+ */
+export interface ImperativeForms {
+  du: string; // "mach auf", "gib", "arbeite"
+  ihr: string; // "macht auf"
+  wir: string; // "machen wir auf"
+  Sie: string; // "machen Sie auf"
+  duAlternative?: string; // Form with the optional -e, e.g. "mache auf"
+}
+
 export interface PersonConjugations {
   ich: string;
   du: string;
@@ -31,6 +169,15 @@ export interface PersonConjugations {
   [person: string]: string;
 }
 
+/**
+ * One interpretation of a conjugated form
+ */
+export interface FormReading {
+  verb: string; // Infinitive
+  tense: string;
+  person: string;
+}
+
 export interface VerbFilters {
   verbTypes?: VerbType[];
   difficultyLevels?: number[];
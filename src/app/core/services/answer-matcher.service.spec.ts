@@ -0,0 +1,51 @@
+import { TestBed } from '@angular/core/testing';
+import { AnswerMatcherService } from './answer-matcher.service';
+
+describe('AnswerMatcherService', () => {
+  let service: AnswerMatcherService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(AnswerMatcherService);
+  });
+
+  it('ignores case, whitespace and punctuation', () => {
+    expect(service.match('  Hole   AB! ', 'hole ab')).toEqual({
+      isCorrect: true,
+      acceptedLeniently: false,
+    });
+  });
+
+  it('accepts only the exact spelling when strict', () => {
+    expect(service.match('wuerde', 'würde').isCorrect).toBeFalse();
+    expect(service.match('iss', 'iß').isCorrect).toBeFalse();
+  });
+
+  it('accepts transliterations leniently', () => {
+    expect(service.match('wuerde', 'würde', 'lenient-transliteration')).toEqual(
+      { isCorrect: true, acceptedLeniently: true }
+    );
+    expect(
+      service.match('schliesst', 'schließt', 'lenient-transliteration')
+        .isCorrect
+    ).toBeTrue();
+    expect(
+      service.match('wurde', 'würde', 'lenient-transliteration').isCorrect
+    ).toBeFalse();
+  });
+
+  it('accepts ss for ß, but no umlaut spellings, in swiss mode', () => {
+    expect(service.match('schliesst', 'schließt', 'swiss')).toEqual({
+      isCorrect: true,
+      acceptedLeniently: true,
+    });
+    expect(service.match('wuerde', 'würde', 'swiss').isCorrect).toBeFalse();
+  });
+
+  it('counts an exact answer as strict in every mode', () => {
+    expect(
+      service.match('würde', 'würde', 'lenient-transliteration')
+        .acceptedLeniently
+    ).toBeFalse();
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core';
+import { AnswerStrictness } from '../models';
+
+export interface AnswerMatch {
+  isCorrect: boolean;
+  acceptedLeniently: boolean; // Correct only because of a lenient rule
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AnswerMatcherService {
+  /**
+   * Compare a user answer with the correct answer under a strictness profile
+   * - strict: case, whitespace and punctuation are ignored, nothing else
+   * - lenient-transliteration: ae/oe/ue/ss are accepted for ä/ö/ü/ß
+   * - swiss: ss is accepted for ß (Swiss spelling)
+   */
+  match(
+    userAnswer: string,
+    correctAnswer: string,
+    strictness: AnswerStrictness = 'strict'
+  ): AnswerMatch {
+    const user = this.normalize(userAnswer);
+    const correct = this.normalize(correctAnswer);
+
+    if (user === correct) {
+      return { isCorrect: true, acceptedLeniently: false };
+    }
+
+    const isCorrect =
+      strictness !== 'strict' &&
+      this.fold(user, strictness) === this.fold(correct, strictness);
+
+    return { isCorrect, acceptedLeniently: isCorrect };
+  }
+
+  /**
+   * Normalize answer string for comparison
+   * Handles case, whitespace, and special characters
+   */
+  normalize(answer: string): string {
+    return answer
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, ' ') // Replace multiple spaces with single space
+      .replace(/[.,!?;:]/g, ''); // Remove punctuation
+  }
+
+  /**
+   * Rewrite spellings that a profile treats as equivalent
+   * Strict profile leaves the text unchanged
+   */
+  fold(answer: string, strictness: AnswerStrictness): string {
+    switch (strictness) {
+      case 'lenient-transliteration':
+        return answer
+          .replace(/ä/g, 'ae')
+          .replace(/ö/g, 'oe')
+          .replace(/ü/g, 'ue')
+          .replace(/ß/g, 'ss');
+      case 'swiss':
+        return answer.replace(/ß/g, 'ss');
+      default:
+        return answer;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+import { TenseDerivationService } from './tense-derivation.service';
+import {
+  ABFASSEN,
+  FIXTURE_VERBS,
+  provideVerbs,
+} from '../../testing/verb.fixtures';
+import { CacheService } from './cache.service';
+import { RandomService } from './random.service';
+
+describe('CacheService', () => {
+  let service: CacheService;
+  let random: RandomService;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [provideVerbs([...FIXTURE_VERBS, ABFASSEN])],
+    });
+    service = TestBed.inject(CacheService);
+    random = TestBed.inject(RandomService);
+    await service.initializeCache();
+  });
+
+  it('draws the same random verbs for the same seed', () => {
+    random.setSeed(2024);
+    const first = service.getRandomVerbs(3).map((verb) => verb.infinitive);
+
+    random.setSeed(2024);
+    expect(service.getRandomVerbs(3).map((verb) => verb.infinitive)).toEqual(
+      first
+    );
+  });
+
+  it('draws distinct verbs that match the criteria', () => {
+    const verbs = service.getRandomVerbs(2, { verbTypes: ['strong'] });
+
+    expect(verbs.length).toBe(2);
+    expect(new Set(verbs.map((verb) => verb.infinitive)).size).toBe(2);
+    verbs.forEach((verb) => expect(verb.verb_type).toBe('strong'));
+  });
+
+  it('detects the prefix of verbs uploaded without one', () => {
+    expect(service.getVerbByInfinitive('abfassen')?.prefix).toEqual({
+      prefix: 'ab',
+      type: 'separable',
+    });
+    expect(service.getVerbByInfinitive('machen')?.prefix).toBeUndefined();
+  });
+
+  it('splits derived forms of separable verbs stored unsplit', () => {
+    const verb = service.getVerbByInfinitive('abfassen')!;
+    const tenseDerivation = TestBed.inject(TenseDerivationService);
+
+    expect(tenseDerivation.deriveImperative(verb)?.du).toBe('fass ab');
+    expect(tenseDerivation.deriveImperative(verb)?.wir).toBe('fassen wir ab');
+    expect(tenseDerivation.deriveTense(verb, 'konjunktiv1')?.['er']).toBe(
+      'fasse ab'
+    );
+  });
+});
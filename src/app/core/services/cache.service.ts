@@ -1,7 +1,16 @@
 import { Injectable, inject } from '@angular/core';
 import { firstValueFrom } from 'rxjs';
-import { Verb, VerbFilters } from '../models';
+import {
+  FormReading,
+  PersonConjugations,
+  SentenceTemplate,
+  Verb,
+  VerbFilters,
+} from '../models';
 import { SupabaseService } from './supabase.service';
+import { RandomService } from './random.service';
+import { PrefixDetectorService } from './prefix-detector.service';
+import { TenseDerivationService } from './tense-derivation.service';
 import { environment } from '../../../environments/environment';
 
 @Injectable({
@@ -9,6 +18,9 @@ import { environment } from '../../../environments/environment';
 })
 export class CacheService {
   private readonly supabaseService = inject(SupabaseService);
+  private readonly random = inject(RandomService);
+  private readonly prefixDetector = inject(PrefixDetectorService);
+  private readonly tenseDerivation = inject(TenseDerivationService);
 
   // In-memory verb storage using Map for O(1) lookup by infinitive
   private verbsMap: Map<string, Verb> = new Map();
@@ -16,6 +28,12 @@ export class CacheService {
   // Array for easy iteration and filtering
   private verbsArray: Verb[] = [];
 
+  // Reverse index: conjugated form -> every (verb, tense, person) it can be
+  private formIndex: Map<string, FormReading[]> = new Map();
+
+  // Cloze sentence templates, loaded alongside the verbs
+  private sentenceTemplates: SentenceTemplate[] = [];
+
   // Initialization flag
   private isInitialized = false;
 
@@ -58,6 +76,9 @@ export class CacheService {
       verbs.forEach((verb) => {
         this.verbsMap.set(verb.infinitive, verb);
       });
+      this.detectPrefixes();
+      this.buildFormIndex();
+      await this.loadSentenceTemplates();
 
       this.isInitialized = true;
 
@@ -76,6 +97,7 @@ export class CacheService {
 
       try {
         await this.loadFallbackData();
+        await this.loadSentenceTemplates();
         this.isInitialized = true;
 
         if (environment.enableDebugLogging) {
@@ -116,6 +138,8 @@ export class CacheService {
       verbs.forEach((verb) => {
         this.verbsMap.set(verb.infinitive, verb);
       });
+      this.detectPrefixes();
+      this.buildFormIndex();
 
       if (environment.enableDebugLogging) {
         console.log(`✅ Loaded ${verbs.length} verbs from fallback`);
@@ -125,6 +149,35 @@ export class CacheService {
     }
   }
 
+  /**
+   * Load sentence templates from Supabase, falling back to the
+   * bundled bank in assets. Never throws: cloze questions fall back
+   * to plain prompts when no template is available.
+   *
+   * @returns Promise<void>
+   */
+  private async loadSentenceTemplates(): Promise<void> {
+    let templates = await firstValueFrom(
+      this.supabaseService.loadSentenceTemplates()
+    );
+
+    if (!templates || templates.length === 0) {
+      try {
+        const response = await fetch('/assets/sentence-templates.json');
+        templates = response.ok ? await response.json() : [];
+      } catch (error) {
+        console.warn('⚠️ Failed to load fallback sentence templates:', error);
+        templates = [];
+      }
+    }
+
+    this.sentenceTemplates = templates;
+
+    if (environment.enableDebugLogging) {
+      console.log(`✅ Loaded ${templates.length} sentence templates`);
+    }
+  }
+
   /**
    * Check if cache is ready for use
    * Used by route guards
@@ -166,6 +219,46 @@ export class CacheService {
     return this.verbsMap.get(infinitive);
   }
 
+  /**
+   * Get every (verb, tense, person) a conjugated form can stand for
+   * Case- and whitespace-insensitive
+   *
+   * @param form - Conjugated form (e.g., "fuhr", "haben gemacht")
+   * @returns FormReading[]
+   */
+  getReadingsForForm(form: string): FormReading[] {
+    if (!this.isInitialized) {
+      console.warn('⚠️ Cache not initialized yet');
+      return [];
+    }
+
+    return [...(this.formIndex.get(this.normalizeForm(form)) || [])];
+  }
+
+  /**
+   * Get sentence templates for a tense and person
+   * Templates restricted to other verbs are left out
+   *
+   * @param tense - Tense key (e.g., "perfekt")
+   * @param person - Person key (e.g., "wir")
+   * @param infinitive - Verb the sentence is for
+   * @returns SentenceTemplate[]
+   */
+  getSentenceTemplates(
+    tense: string,
+    person: string,
+    infinitive: string
+  ): SentenceTemplate[] {
+    return this.sentenceTemplates.filter(
+      (template) =>
+        template.tense === tense &&
+        template.person === person &&
+        (!template.verbs ||
+          template.verbs.length === 0 ||
+          template.verbs.includes(infinitive))
+    );
+  }
+
   /**
    * Filter verbs by various criteria
    * Synchronous - very fast with in-memory data
@@ -262,6 +355,7 @@ export class CacheService {
   /**
    * Shuffle array using Fisher-Yates algorithm
    * Creates a copy - doesn't mutate original
+   * Uses the seeded RandomService, so a quiz seed reproduces the draw
    *
    * @param array - Array to shuffle
    * @returns T[] - Shuffled copy
@@ -270,13 +364,70 @@ export class CacheService {
     const shuffled = [...array]; // Create copy
 
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = this.random.nextInt(i + 1);
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]; // Swap
     }
 
     return shuffled;
   }
 
+  /**
+   * Fill in the prefix of verbs uploaded without one, so separable
+   * verbs stored unsplit ("abfasse") still split for derived forms
+   */
+  private detectPrefixes(): void {
+    this.verbsArray.forEach((verb) => {
+      const prefix = !verb.prefix && this.prefixDetector.detect(verb);
+      if (prefix) {
+        verb.prefix = prefix;
+      }
+    });
+  }
+
+  /**
+   * Rebuild the form -> readings index from the loaded verbs,
+   * in the stored tenses and the ones derived from them
+   */
+  private buildFormIndex(): void {
+    this.formIndex.clear();
+
+    this.verbsArray.forEach((verb) => {
+      Object.entries(verb.conjugations).forEach(([tense, forms]) =>
+        this.indexForms(verb, tense, forms)
+      );
+      this.tenseDerivation
+        .getDerivableTenses(verb)
+        .forEach((tense) =>
+          this.indexForms(
+            verb,
+            tense,
+            this.tenseDerivation.deriveTense(verb, tense)
+          )
+        );
+    });
+  }
+
+  private indexForms(
+    verb: Verb,
+    tense: string,
+    forms: PersonConjugations | undefined
+  ): void {
+    if (!forms) return;
+
+    Object.entries(forms).forEach(([person, form]) => {
+      if (!form) return;
+
+      const key = this.normalizeForm(form);
+      const readings = this.formIndex.get(key) || [];
+      readings.push({ verb: verb.infinitive, tense, person });
+      this.formIndex.set(key, readings);
+    });
+  }
+
+  private normalizeForm(form: string): string {
+    return form.toLowerCase().trim().replace(/\s+/g, ' ');
+  }
+
   /**
    * Get count of verbs in cache
    * Useful for debugging and statistics
@@ -344,6 +495,8 @@ export class CacheService {
   clearCache(): void {
     this.verbsMap.clear();
     this.verbsArray = [];
+    this.formIndex.clear();
+    this.sentenceTemplates = [];
     this.isInitialized = false;
 
     if (environment.enableDebugLogging) {
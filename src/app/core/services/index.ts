@@ -4,3 +4,7 @@ export * from './cache.service';
 export * from './storage.service';
 export * from './sync.service';
 export * from './auth.service';
+export * from './answer-matcher.service';
+export * from './random.service';
+export * from './prefix-detector.service';
+export * from './tense-derivation.service';
@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { PrefixDetectorService } from './prefix-detector.service';
+
+describe('PrefixDetectorService', () => {
+  let service: PrefixDetectorService;
+
+  // Only the Partizip II of the perfekt is read
+  const detect = (infinitive: string, participle?: string) => {
+    const perfect = `hat ${participle}`;
+    return service.detect({
+      infinitive,
+      conjugations: participle
+        ? {
+            perfekt: {
+              ich: perfect,
+              du: perfect,
+              er: perfect,
+              wir: perfect,
+              ihr: perfect,
+              sie: perfect,
+            },
+          }
+        : {},
+    });
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PrefixDetectorService);
+  });
+
+  it('detects separable prefixes from ge- after the prefix', () => {
+    expect(detect('anrufen', 'angerufen')).toEqual({
+      prefix: 'an',
+      type: 'separable',
+    });
+    expect(detect('abgeben', 'abgegeben')).toEqual({
+      prefix: 'ab',
+      type: 'separable',
+    });
+    expect(detect('anvisieren', 'anvisiert')).toEqual({
+      prefix: 'an',
+      type: 'separable',
+    });
+  });
+
+  it('tells separable from inseparable dual prefixes', () => {
+    expect(detect('umziehen', 'umgezogen')?.type).toBe('separable');
+    expect(detect('umarmen', 'umarmt')?.type).toBe('inseparable');
+    expect(detect('durchgehen', 'durchgegangen')?.type).toBe('separable');
+  });
+
+  it('keeps dual prefixes before a stem starting with ge- inseparable', () => {
+    expect(detect('übergeben', 'übergeben')).toEqual({
+      prefix: 'über',
+      type: 'inseparable',
+    });
+    expect(detect('umgeben', 'umgeben')).toEqual({
+      prefix: 'um',
+      type: 'inseparable',
+    });
+  });
+
+  it('detects inseparable prefixes before a stem starting with ge-', () => {
+    expect(detect('vergessen', 'vergessen')).toEqual({
+      prefix: 'ver',
+      type: 'inseparable',
+    });
+    expect(detect('begegnen', 'begegnet')).toEqual({
+      prefix: 'be',
+      type: 'inseparable',
+    });
+    expect(detect('gehören', 'gehört')).toEqual({
+      prefix: 'ge',
+      type: 'inseparable',
+    });
+  });
+
+  it('finds no prefix where the participle adds ge- in front', () => {
+    expect(detect('bellen', 'gebellt')).toBeNull();
+    expect(detect('antworten', 'geantwortet')).toBeNull();
+  });
+
+  it('trusts only unambiguous prefixes without a participle', () => {
+    expect(detect('abholen')).toEqual({ prefix: 'ab', type: 'separable' });
+    expect(detect('übersetzen')).toBeNull();
+  });
+});
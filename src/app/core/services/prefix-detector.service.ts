@@ -0,0 +1,197 @@
+import { Injectable } from '@angular/core';
+import { VerbConjugations, VerbPrefix } from '../models/verb.model';
+
+// Longest first, so "zurück" wins over "zu" and "hinaus" over "hin"
+const SEPARABLE_PREFIXES = [
+  'zusammen',
+  'entgegen',
+  'zurück',
+  'vorbei',
+  'weiter',
+  'herein',
+  'heraus',
+  'hinaus',
+  'hinein',
+  'empor',
+  'statt',
+  'fest',
+  'fort',
+  'heim',
+  'nach',
+  'teil',
+  'auf',
+  'aus',
+  'bei',
+  'dar',
+  'ein',
+  'her',
+  'hin',
+  'los',
+  'mit',
+  'vor',
+  'weg',
+  'ab',
+  'an',
+  'zu',
+];
+
+const INSEPARABLE_PREFIXES = [
+  'miss',
+  'emp',
+  'ent',
+  'ver',
+  'zer',
+  'be',
+  'er',
+  'ge',
+];
+
+// Separable in some verbs (umziehen), inseparable in others (umarmen)
+const DUAL_PREFIXES = [
+  'hinter',
+  'durch',
+  'wieder',
+  'über',
+  'unter',
+  'voll',
+  'um',
+];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PrefixDetectorService {
+  constructor() {
+    console.log('🔤 PrefixDetectorService initialized');
+  }
+
+  /**
+   * Detect a verb's prefix from its infinitive, confirmed by the
+   * Partizip II when a perfekt is available:
+   * separable "angerufen" (ge- after the prefix), inseparable "verstanden" (no ge-)
+   * Returns null if the verb has no prefix
+   */
+  detect(verb: {
+    infinitive: string;
+    conjugations: VerbConjugations;
+  }): VerbPrefix | null {
+    const infinitive = verb.infinitive.trim().toLowerCase();
+    if (/\s/.test(infinitive)) {
+      return null;
+    }
+
+    const participle = this.getParticiple(verb.conjugations);
+
+    const candidates = [
+      ...SEPARABLE_PREFIXES.map((prefix) => ({ prefix, dual: false })),
+      ...DUAL_PREFIXES.map((prefix) => ({ prefix, dual: true })),
+    ]
+      .filter(({ prefix }) => this.hasPrefix(infinitive, prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    // A rejected "hinter" must not fall back to "hin"
+    const rejected: string[] = [];
+
+    for (const { prefix, dual } of candidates) {
+      if (rejected.some((longer) => longer.startsWith(prefix))) {
+        continue;
+      }
+
+      if (!participle) {
+        // Without a participle, only unambiguous prefixes are trusted
+        if (!dual) return { prefix, type: 'separable' };
+        continue;
+      }
+
+      if (this.isSeparableParticiple(participle, prefix, infinitive, dual)) {
+        return { prefix, type: 'separable' };
+      }
+      if (
+        dual &&
+        this.isInseparableParticiple(participle, prefix, infinitive)
+      ) {
+        return { prefix, type: 'inseparable' };
+      }
+      rejected.push(prefix);
+    }
+
+    const inseparable = INSEPARABLE_PREFIXES.find(
+      (prefix) =>
+        this.hasPrefix(infinitive, prefix) &&
+        !rejected.some((longer) => longer.startsWith(prefix))
+    );
+    if (
+      inseparable &&
+      (!participle ||
+        this.isInseparableParticiple(participle, inseparable, infinitive))
+    ) {
+      return { prefix: inseparable, type: 'inseparable' };
+    }
+
+    return null;
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * The prefix must leave a plausible verb behind (not "an" + "tworten")
+   */
+  private hasPrefix(infinitive: string, prefix: string): boolean {
+    return (
+      infinitive.startsWith(prefix) && infinitive.length - prefix.length >= 4
+    );
+  }
+
+  private getParticiple(conjugations: VerbConjugations): string | null {
+    const perfect = conjugations['perfekt'];
+    const form = perfect?.['er'] || perfect?.['ich'];
+    const words = form?.trim().toLowerCase().split(/\s+/);
+
+    return words && words.length > 1 ? words[words.length - 1] : null;
+  }
+
+  /**
+   * "angerufen", or "anvisiert" for -ieren verbs, which take no ge-
+   * After a dual prefix, a stem starting with ge- needs the participle's
+   * own ge- in front ("durchgegangen"); "übergeben", the infinitive
+   * unchanged, is inseparable
+   */
+  private isSeparableParticiple(
+    participle: string,
+    prefix: string,
+    infinitive: string,
+    dual: boolean
+  ): boolean {
+    const geStem = dual && infinitive.startsWith(prefix + 'ge');
+
+    return (
+      (geStem
+        ? participle !== infinitive && participle.startsWith(prefix + 'geg')
+        : participle.startsWith(prefix + 'ge')) ||
+      (infinitive.endsWith('ieren') &&
+        participle.startsWith(prefix) &&
+        !participle.startsWith('ge'))
+    );
+  }
+
+  /**
+   * "verstanden", "umarmt": the prefix is kept and no ge- is added
+   * ("gehört" counts for ge-, but "gegeben" does not); a stem starting
+   * with ge- keeps it ("vergessen", "begegnet")
+   * Dual prefixes are checked for a separable participle first
+   */
+  private isInseparableParticiple(
+    participle: string,
+    prefix: string,
+    infinitive: string
+  ): boolean {
+    return (
+      participle.startsWith(prefix) &&
+      (infinitive.startsWith(prefix + 'ge') ||
+        !participle.startsWith(prefix + 'ge')) &&
+      (prefix === 'ge'
+        ? !participle.startsWith('gege')
+        : !participle.startsWith('ge'))
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { RandomService } from './random.service';
+
+describe('RandomService', () => {
+  let service: RandomService;
+
+  const draw = (count: number) =>
+    Array.from({ length: count }, () => service.next());
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RandomService);
+  });
+
+  it('repeats the same sequence for the same seed', () => {
+    service.setSeed(42);
+    const first = draw(20);
+
+    service.setSeed(42);
+    expect(draw(20)).toEqual(first);
+  });
+
+  it('gives a different sequence for another seed', () => {
+    service.setSeed(42);
+    const first = draw(20);
+
+    service.setSeed(43);
+    expect(draw(20)).not.toEqual(first);
+  });
+
+  it('keeps numbers in [0, 1)', () => {
+    service.setSeed(7);
+    draw(1000).forEach((n) => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+
+  it('keeps nextInt in [0, max)', () => {
+    service.setSeed(7);
+    const values = Array.from({ length: 1000 }, () => service.nextInt(5));
+
+    expect(Math.min(...values)).toBe(0);
+    expect(Math.max(...values)).toBe(4);
+    values.forEach((n) => expect(Number.isInteger(n)).toBeTrue());
+  });
+
+  it('stores seeds as unsigned 32-bit integers', () => {
+    service.setSeed(-1);
+    expect(service.getSeed()).toBe(0xffffffff);
+
+    const seed = service.createSeed();
+    expect(Number.isInteger(seed)).toBeTrue();
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(0xffffffff);
+  });
+});
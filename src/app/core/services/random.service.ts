@@ -0,0 +1,54 @@
+import { Injectable } from '@angular/core';
+
+// Seeds are stored in results, so keep them to unsigned 32-bit integers
+const MAX_SEED = 0xffffffff;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class RandomService {
+  private seed = 0;
+  private state = 0;
+
+  constructor() {
+    this.setSeed(this.createSeed());
+    console.log('🌱 RandomService initialized');
+  }
+
+  /**
+   * Create a new seed for a quiz that should differ from the last one
+   */
+  createSeed(): number {
+    return Math.floor(Math.random() * MAX_SEED);
+  }
+
+  /**
+   * Restart the sequence; the same seed always gives the same numbers
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Next number in [0, 1), a drop-in for Math.random (mulberry32)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
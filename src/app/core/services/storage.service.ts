@@ -1,5 +1,5 @@
 import { Injectable } from '@angular/core';
-import { TestResult, TestConfig } from '../models';
+import { TestResult, TestConfig, ReviewSchedule } from '../models';
 
 @Injectable({
   providedIn: 'root',
@@ -9,6 +9,7 @@ export class StorageService {
   private readonly CONFIG_KEY = 'german-verb-trainer-config';
   private readonly SYNC_STATUS_KEY = 'german-verb-trainer-sync-status';
   private readonly LAST_SYNC_KEY = 'german-verb-trainer-last-sync';
+  private readonly REVIEW_SCHEDULE_KEY = 'german-verb-trainer-review-schedule';
 
   constructor() {
     console.log('📦 StorageService initialized');
@@ -113,10 +114,42 @@ export class StorageService {
     }
   }
 
+  // Review schedule methods
+  saveReviewSchedule(schedule: ReviewSchedule): void {
+    try {
+      localStorage.setItem(this.REVIEW_SCHEDULE_KEY, JSON.stringify(schedule));
+    } catch (error) {
+      console.error('❌ Error saving review schedule:', error);
+      throw error;
+    }
+  }
+
+  getReviewSchedule(): ReviewSchedule {
+    try {
+      const data = localStorage.getItem(this.REVIEW_SCHEDULE_KEY);
+      if (!data) {
+        return {};
+      }
+
+      return JSON.parse(data) as ReviewSchedule;
+    } catch (error) {
+      console.error(
+        '❌ Error parsing review schedule from localStorage:',
+        error
+      );
+      return {};
+    }
+  }
+
+  hasReviewSchedule(): boolean {
+    return localStorage.getItem(this.REVIEW_SCHEDULE_KEY) !== null;
+  }
+
   // Utility methods
   clearAllData(): void {
     try {
       localStorage.removeItem(this.TEST_RESULTS_KEY);
+      localStorage.removeItem(this.REVIEW_SCHEDULE_KEY);
       localStorage.removeItem(this.CONFIG_KEY);
       localStorage.removeItem(this.SYNC_STATUS_KEY);
       localStorage.removeItem(this.LAST_SYNC_KEY);
@@ -132,6 +165,7 @@ export class StorageService {
       const exportData = {
         results: this.getTestResults(),
         config: this.getConfig(),
+        reviewSchedule: this.getReviewSchedule(),
         exportDate: new Date().toISOString(),
         version: '1.0',
       };
@@ -162,6 +196,17 @@ export class StorageService {
         );
       }
 
+      // Import review schedule if present; otherwise drop the old one,
+      // since it no longer matches the imported results
+      if (importData.reviewSchedule) {
+        localStorage.setItem(
+          this.REVIEW_SCHEDULE_KEY,
+          JSON.stringify(importData.reviewSchedule)
+        );
+      } else {
+        localStorage.removeItem(this.REVIEW_SCHEDULE_KEY);
+      }
+
       // Import config if present
       if (importData.config) {
         localStorage.setItem(
@@ -173,6 +218,7 @@ export class StorageService {
       console.log('✅ Data imported successfully:', {
         resultsCount: importData.results.length,
         hasConfig: !!importData.config,
+        hasReviewSchedule: !!importData.reviewSchedule,
       });
     } catch (error) {
       console.error('❌ Error importing data:', error);
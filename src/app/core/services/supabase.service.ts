@@ -3,7 +3,7 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Observable, from, throwError, of } from 'rxjs';
 import { map, catchError, tap } from 'rxjs/operators';
 import { environment } from '../../../environments/environment';
-import { Verb, TestResult } from '../models';
+import { Verb, TestResult, SentenceTemplate } from '../models';
 
 @Injectable({
   providedIn: 'root',
@@ -125,6 +125,28 @@ export class SupabaseService {
     );
   }
 
+  /**
+   * Load cloze sentence templates from the database
+   * Returns an empty array on failure so the bundled bank can be used
+   *
+   * @returns Observable<SentenceTemplate[]>
+   */
+  loadSentenceTemplates(): Observable<SentenceTemplate[]> {
+    return from(this.supabase.from('sentence_templates').select('*')).pipe(
+      map((response) => {
+        if (response.error) {
+          throw response.error;
+        }
+
+        return response.data as SentenceTemplate[];
+      }),
+      catchError((error) => {
+        console.error('❌ Failed to load sentence templates:', error);
+        return of([]);
+      })
+    );
+  }
+
   /**
    * Upload test results to Supabase
    * Called when user clicks "Upload History" button
@@ -0,0 +1,129 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  ABHOLEN,
+  ARBEITEN,
+  GEBEN,
+  GEHEN,
+  MACHEN,
+  WERDEN,
+} from '../../testing/verb.fixtures';
+import { TenseDerivationService } from './tense-derivation.service';
+
+describe('TenseDerivationService', () => {
+  let service: TenseDerivationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TenseDerivationService);
+  });
+
+  describe('compound tenses', () => {
+    it('builds the plusquamperfekt with the perfekt auxiliary', () => {
+      expect(service.deriveTense(MACHEN, 'plusquamperfekt')?.['ich']).toBe(
+        'hatte gemacht'
+      );
+      expect(service.deriveTense(GEHEN, 'plusquamperfekt')?.['wir']).toBe(
+        'waren gegangen'
+      );
+    });
+
+    it('builds the futur and futur II with werden', () => {
+      expect(service.deriveTense(MACHEN, 'futur')?.['du']).toBe('wirst machen');
+      expect(service.deriveTense(GEHEN, 'futur2')?.['er']).toBe(
+        'wird gegangen sein'
+      );
+    });
+
+    it('only derives the known tenses', () => {
+      expect(service.deriveTense(MACHEN, 'präsens')).toBeUndefined();
+      expect(service.getDerivableTenses(MACHEN)).toContain('konjunktiv2past');
+    });
+  });
+
+  describe('Konjunktiv', () => {
+    it('builds the Konjunktiv I from the infinitive stem', () => {
+      const forms = service.deriveTense(GEHEN, 'konjunktiv1');
+
+      expect(forms?.['ich']).toBe('gehe');
+      expect(forms?.['du']).toBe('gehest');
+      expect(forms?.['sie']).toBe('gehen');
+    });
+
+    it('keeps the präteritum as the Konjunktiv II of weak verbs', () => {
+      expect(service.deriveTense(MACHEN, 'konjunktiv2')?.['er']).toBe('machte');
+    });
+
+    it('umlauts the präteritum stem of strong verbs', () => {
+      expect(service.deriveTense(GEBEN, 'konjunktiv2')?.['ich']).toBe('gäbe');
+      expect(service.deriveTense(GEBEN, 'konjunktiv2')?.['du']).toBe('gäbest');
+      expect(service.deriveTense(GEHEN, 'konjunktiv2')?.['wir']).toBe('gingen');
+    });
+
+    it('umlauts a präteritum ending in -e (wurde -> würde)', () => {
+      const forms = service.deriveTense(WERDEN, 'konjunktiv2');
+
+      expect(forms?.['ich']).toBe('würde');
+      expect(forms?.['du']).toBe('würdest');
+      expect(forms?.['wir']).toBe('würden');
+    });
+
+    it('builds the past Konjunktiv II with hätte/wäre', () => {
+      expect(service.deriveTense(MACHEN, 'konjunktiv2past')?.['ich']).toBe(
+        'hätte gemacht'
+      );
+      expect(service.deriveTense(GEHEN, 'konjunktiv2past')?.['er']).toBe(
+        'wäre gegangen'
+      );
+    });
+  });
+
+  describe('deriveImperative', () => {
+    it('builds the four imperative persons', () => {
+      expect(service.deriveImperative(MACHEN)).toEqual({
+        du: 'mach',
+        duAlternative: 'mache',
+        ihr: 'macht',
+        wir: 'machen wir',
+        Sie: 'machen Sie',
+      });
+    });
+
+    it('keeps the e -> i change without -e', () => {
+      expect(service.deriveImperative(GEBEN)?.du).toBe('gib');
+    });
+
+    it('adds a linking e to stems in -d/-t', () => {
+      expect(service.deriveImperative(ARBEITEN)?.du).toBe('arbeite');
+      expect(service.deriveImperative(ARBEITEN)?.ihr).toBe('arbeitet');
+    });
+
+    it('moves a separable prefix to the end', () => {
+      expect(service.deriveImperative(ABHOLEN)?.du).toBe('hol ab');
+      expect(service.deriveImperative(ABHOLEN)?.wir).toBe('holen wir ab');
+    });
+  });
+
+  describe('derivePassive', () => {
+    const transitive = { ...MACHEN, transitive: true };
+
+    it('builds both passives of transitive verbs', () => {
+      expect(
+        service.derivePassive(transitive, 'vorgangspassiv', 'präsens')?.['er']
+      ).toBe('wird gemacht');
+      expect(
+        service.derivePassive(transitive, 'vorgangspassiv', 'perfekt')?.['er']
+      ).toBe('ist gemacht worden');
+      expect(
+        service.derivePassive(transitive, 'zustandspassiv', 'präteritum')?.[
+          'er'
+        ]
+      ).toBe('war gemacht');
+    });
+
+    it('has no passive for verbs not flagged transitive', () => {
+      expect(
+        service.derivePassive(MACHEN, 'vorgangspassiv', 'präsens')
+      ).toBeUndefined();
+    });
+  });
+});
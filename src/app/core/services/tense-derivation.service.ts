@@ -0,0 +1,551 @@
+import { Injectable } from '@angular/core';
+import {
+  ImperativeForms,
+  PASSIVE_TENSES,
+  PersonConjugations,
+  Verb,
+  Voice,
+} from '../models';
+
+/**
+ * Tenses and subjunctive forms that can be built from the stored
+ * präteritum, perfekt and infinitive
+ */
+export const DERIVED_TENSES = [
+  'plusquamperfekt',
+  'futur',
+  'futur2',
+  'konjunktiv1',
+  'konjunktiv2',
+  'konjunktiv2past',
+  'würde',
+];
+
+const HABEN_PRESENT = ['habe', 'hast', 'hat', 'haben', 'habt'];
+const SEIN_PRESENT = ['bin', 'bist', 'ist', 'sind', 'seid'];
+
+const HABEN_PAST: PersonConjugations = {
+  ich: 'hatte',
+  du: 'hattest',
+  er: 'hatte',
+  wir: 'hatten',
+  ihr: 'hattet',
+  sie: 'hatten',
+};
+
+const SEIN_PAST: PersonConjugations = {
+  ich: 'war',
+  du: 'warst',
+  er: 'war',
+  wir: 'waren',
+  ihr: 'wart',
+  sie: 'waren',
+};
+
+const WERDEN_PRESENT: PersonConjugations = {
+  ich: 'werde',
+  du: 'wirst',
+  er: 'wird',
+  wir: 'werden',
+  ihr: 'werdet',
+  sie: 'werden',
+};
+
+const WERDEN_PAST: PersonConjugations = {
+  ich: 'wurde',
+  du: 'wurdest',
+  er: 'wurde',
+  wir: 'wurden',
+  ihr: 'wurdet',
+  sie: 'wurden',
+};
+
+const SEIN_PRESENT_FORMS: PersonConjugations = {
+  ich: 'bin',
+  du: 'bist',
+  er: 'ist',
+  wir: 'sind',
+  ihr: 'seid',
+  sie: 'sind',
+};
+
+const WUERDE: PersonConjugations = {
+  ich: 'würde',
+  du: 'würdest',
+  er: 'würde',
+  wir: 'würden',
+  ihr: 'würdet',
+  sie: 'würden',
+};
+
+const HABEN_SUBJUNCTIVE: PersonConjugations = {
+  ich: 'hätte',
+  du: 'hättest',
+  er: 'hätte',
+  wir: 'hätten',
+  ihr: 'hättet',
+  sie: 'hätten',
+};
+
+const SEIN_SUBJUNCTIVE: PersonConjugations = {
+  ich: 'wäre',
+  du: 'wärest',
+  er: 'wäre',
+  wir: 'wären',
+  ihr: 'wäret',
+  sie: 'wären',
+};
+
+const SEIN_KONJUNKTIV1: PersonConjugations = {
+  ich: 'sei',
+  du: 'seiest',
+  er: 'sei',
+  wir: 'seien',
+  ihr: 'seiet',
+  sie: 'seien',
+};
+
+const SUBJUNCTIVE_ENDINGS: PersonConjugations = {
+  ich: 'e',
+  du: 'est',
+  er: 'e',
+  wir: 'en',
+  ihr: 'et',
+  sie: 'en',
+};
+
+// Konjunktiv II stems the umlaut rule gets wrong (matched on the infinitive end)
+const KONJUNKTIV2_EXCEPTIONS: Record<string, string> = {
+  sollen: 'sollte',
+  wollen: 'wollte',
+  kennen: 'kennte',
+  nennen: 'nennte',
+  rennen: 'rennte',
+  brennen: 'brennte',
+  senden: 'sendete',
+  wenden: 'wendete',
+  helfen: 'hülfe',
+  sterben: 'stürbe',
+  werfen: 'würfe',
+  verderben: 'verdürbe',
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TenseDerivationService {
+  // Derived tables per verb object, so reloaded verbs are recomputed
+  private derivedCache = new WeakMap<
+    Verb,
+    Map<string, PersonConjugations | null>
+  >();
+  private imperativeCache = new WeakMap<Verb, ImperativeForms | null>();
+
+  constructor() {
+    console.log('🧮 TenseDerivationService initialized');
+  }
+
+  /**
+   * Compute a compound tense that the stored data lacks
+   * Returns undefined if the tense isn't derivable for this verb
+   */
+  deriveTense(verb: Verb, tense: string): PersonConjugations | undefined {
+    if (!DERIVED_TENSES.includes(tense)) {
+      return undefined;
+    }
+
+    let verbCache = this.derivedCache.get(verb);
+    if (!verbCache) {
+      verbCache = new Map();
+      this.derivedCache.set(verb, verbCache);
+    }
+
+    if (!verbCache.has(tense)) {
+      verbCache.set(tense, this.buildTense(verb, tense));
+    }
+
+    return verbCache.get(tense) || undefined;
+  }
+
+  /**
+   * Get the derived tenses available for a verb (not already stored)
+   */
+  getDerivableTenses(verb: Verb): string[] {
+    return DERIVED_TENSES.filter(
+      (tense) => !verb.conjugations[tense] && this.deriveTense(verb, tense)
+    );
+  }
+
+  /**
+   * Compute a passive tense from the perfekt participle
+   * - vorgangspassiv: wird geöffnet, wurde geöffnet, ist geöffnet worden
+   * - zustandspassiv: ist geöffnet, war geöffnet, ist geöffnet gewesen
+   * Returns undefined for verbs not flagged transitive
+   */
+  derivePassive(
+    verb: Verb,
+    voice: Exclude<Voice, 'aktiv'>,
+    tense: string
+  ): PersonConjugations | undefined {
+    if (
+      !verb.transitive ||
+      verb.reflexive ||
+      verb.verb_type === 'modal' ||
+      !PASSIVE_TENSES.includes(tense)
+    ) {
+      return undefined;
+    }
+
+    let verbCache = this.derivedCache.get(verb);
+    if (!verbCache) {
+      verbCache = new Map();
+      this.derivedCache.set(verb, verbCache);
+    }
+
+    const key = `${voice}:${tense}`;
+    if (!verbCache.has(key)) {
+      verbCache.set(key, this.buildPassive(verb, voice, tense));
+    }
+
+    return verbCache.get(key) || undefined;
+  }
+
+  /**
+   * Compute the imperative (du, ihr, wir, Sie) from the infinitive,
+   * using the er form to detect an e -> i stem change (gib, lies)
+   * Returns undefined for modals and multi-word infinitives
+   */
+  deriveImperative(verb: Verb): ImperativeForms | undefined {
+    if (!this.imperativeCache.has(verb)) {
+      this.imperativeCache.set(verb, this.buildImperative(verb));
+    }
+    return this.imperativeCache.get(verb) || undefined;
+  }
+
+  // ==================== DERIVATION ====================
+
+  private buildTense(verb: Verb, tense: string): PersonConjugations | null {
+    if (tense === 'futur') {
+      return this.mapPersons(
+        (person) => `${WERDEN_PRESENT[person]} ${verb.infinitive}`
+      );
+    }
+
+    if (tense === 'würde') {
+      return this.mapPersons(
+        (person) => `${WUERDE[person]} ${verb.infinitive}`
+      );
+    }
+
+    if (tense === 'konjunktiv1') {
+      return this.buildKonjunktiv1(verb);
+    }
+
+    if (tense === 'konjunktiv2') {
+      return this.buildKonjunktiv2(verb);
+    }
+
+    const perfectParts = this.getPerfectParts(verb);
+    if (!perfectParts) {
+      return null;
+    }
+
+    const { auxiliary, participle } = perfectParts;
+
+    if (tense === 'plusquamperfekt') {
+      const auxiliaryPast = auxiliary === 'sein' ? SEIN_PAST : HABEN_PAST;
+      return this.mapPersons(
+        (person) => `${auxiliaryPast[person]} ${participle}`
+      );
+    }
+
+    if (tense === 'konjunktiv2past') {
+      const auxiliarySubjunctive =
+        auxiliary === 'sein' ? SEIN_SUBJUNCTIVE : HABEN_SUBJUNCTIVE;
+      return this.mapPersons(
+        (person) => `${auxiliarySubjunctive[person]} ${participle}`
+      );
+    }
+
+    // futur2: werden + participle + auxiliary infinitive
+    return this.mapPersons(
+      (person) => `${WERDEN_PRESENT[person]} ${participle} ${auxiliary}`
+    );
+  }
+
+  /**
+   * Konjunktiv I: infinitive stem + subjunctive endings (komme an, sei)
+   */
+  private buildKonjunktiv1(verb: Verb): PersonConjugations | null {
+    const split = this.splitSeparable(verb);
+    if (!split) {
+      return null;
+    }
+
+    const { base, prefix } = split;
+    if (base === 'sein') {
+      return this.withPrefix(SEIN_KONJUNKTIV1, prefix);
+    }
+
+    // -eln/-ern/-n infinitives only drop the n (sammel-e, tu-e)
+    const stem = base.endsWith('en') ? base.slice(0, -2) : base.slice(0, -1);
+
+    return this.withPrefix(
+      this.mapPersons((person) =>
+        ['wir', 'sie'].includes(person)
+          ? base
+          : stem + SUBJUNCTIVE_ENDINGS[person]
+      ),
+      prefix
+    );
+  }
+
+  /**
+   * Konjunktiv II: the präteritum for weak verbs, otherwise the
+   * präteritum stem with umlaut (käme, ginge, hätte, könnte)
+   */
+  private buildKonjunktiv2(verb: Verb): PersonConjugations | null {
+    const past = verb.conjugations['präteritum'];
+    if (verb.verb_type === 'weak') {
+      return past ? { ...past } : null;
+    }
+
+    const split = this.splitSeparable(verb);
+    const pastForm = (past?.['ich'] || past?.['er'])?.trim().split(/\s+/)[0];
+    if (!split || !pastForm) {
+      return null;
+    }
+
+    const { base, prefix } = split;
+    const exception = Object.keys(KONJUNKTIV2_EXCEPTIONS)
+      .sort((a, b) => b.length - a.length)
+      .find((ending) => base.endsWith(ending));
+
+    const subjunctive = exception
+      ? base.slice(0, -exception.length) + KONJUNKTIV2_EXCEPTIONS[exception]
+      : this.addUmlaut(pastForm);
+
+    // Stems in -e take the short endings (hätte, hättest), but not -ie (schriee)
+    const forms =
+      subjunctive.endsWith('e') && !subjunctive.endsWith('ie')
+        ? this.mapPersons(
+            (person) => subjunctive.slice(0, -1) + SUBJUNCTIVE_ENDINGS[person]
+          )
+        : this.mapPersons(
+            (person) => subjunctive + SUBJUNCTIVE_ENDINGS[person]
+          );
+
+    return this.withPrefix(forms, prefix);
+  }
+
+  private buildPassive(
+    verb: Verb,
+    voice: Exclude<Voice, 'aktiv'>,
+    tense: string
+  ): PersonConjugations | null {
+    const participle = this.getPerfectParts(verb)?.participle;
+    if (!participle) {
+      return null;
+    }
+
+    const isProcess = voice === 'vorgangspassiv';
+
+    switch (tense) {
+      case 'präsens': {
+        const auxiliary = isProcess ? WERDEN_PRESENT : SEIN_PRESENT_FORMS;
+        return this.mapPersons(
+          (person) => `${auxiliary[person]} ${participle}`
+        );
+      }
+      case 'präteritum': {
+        const auxiliary = isProcess ? WERDEN_PAST : SEIN_PAST;
+        return this.mapPersons(
+          (person) => `${auxiliary[person]} ${participle}`
+        );
+      }
+      default: {
+        // Perfekt: always "sein", with "worden" (not "geworden") or "gewesen"
+        const ending = isProcess ? 'worden' : 'gewesen';
+        return this.mapPersons(
+          (person) => `${SEIN_PRESENT_FORMS[person]} ${participle} ${ending}`
+        );
+      }
+    }
+  }
+
+  private buildImperative(verb: Verb): ImperativeForms | null {
+    const split = this.splitSeparable(verb);
+    if (!split || verb.verb_type === 'modal') {
+      return null;
+    }
+
+    const { base, prefix } = split;
+    const suffix = prefix ? ` ${prefix}` : '';
+
+    if (base === 'sein') {
+      return {
+        du: `sei${suffix}`,
+        ihr: `seid${suffix}`,
+        wir: `seien wir${suffix}`,
+        Sie: `seien Sie${suffix}`,
+      };
+    }
+
+    const stem = base.endsWith('en') ? base.slice(0, -2) : base.slice(0, -1);
+    const linkingE = /[dt]$/.test(stem) || /[^aeiouäöülrhmn][mn]$/.test(stem);
+
+    const forms: ImperativeForms = {
+      du: '',
+      ihr: stem + (linkingE ? 'et' : 't') + suffix,
+      wir: `${base} wir${suffix}`,
+      Sie: `${base} Sie${suffix}`,
+    };
+
+    const changedStem = this.getChangedImperativeStem(verb, stem, prefix);
+
+    if (changedStem && base !== 'werden') {
+      // e -> i verbs never take -e (gib, not gibe)
+      forms.du = changedStem + suffix;
+    } else if (/(el|er)$/.test(stem)) {
+      // sammeln -> sammle, ändern -> ändere
+      forms.du =
+        (stem.endsWith('el') ? stem.slice(0, -2) + 'l' : stem) + 'e' + suffix;
+    } else if (linkingE || stem.endsWith('ig') || base === 'werden') {
+      forms.du = stem + 'e' + suffix;
+    } else {
+      forms.du = stem + suffix;
+      forms.duAlternative = stem + 'e' + suffix;
+    }
+
+    return forms;
+  }
+
+  /**
+   * Stem of the er form if it changes e -> i/ie (gibt -> gib)
+   */
+  private getChangedImperativeStem(
+    verb: Verb,
+    stem: string,
+    prefix: string
+  ): string | null {
+    let er = verb.conjugations['präsens']?.['er']?.trim().split(/\s+/)[0];
+    if (!er) {
+      return null;
+    }
+
+    // Some stored forms keep the prefix attached (abfasst)
+    if (prefix && er.startsWith(prefix)) {
+      er = er.slice(prefix.length);
+    }
+
+    let erStem: string;
+    if (er.endsWith('et') && er.slice(0, -2) === stem) {
+      erStem = stem;
+    } else if (/[dt]$/.test(stem)) {
+      erStem = er; // Contracted forms: gilt, tritt
+    } else {
+      erStem = er.replace(/t$/, '');
+    }
+
+    const isEtoI =
+      erStem !== stem &&
+      stem.includes('e') &&
+      erStem.includes('i') &&
+      !/[äöü]/.test(erStem);
+
+    return isEtoI ? erStem : null;
+  }
+
+  /**
+   * Umlaut the stem vowel of a präteritum form (kam -> käm,
+   * brachte -> brächte, wurde -> würde); the vowel before the
+   * "-te" of mixed verbs or a final "-e"
+   */
+  private addUmlaut(pastForm: string): string {
+    const ending = pastForm.endsWith('te')
+      ? 'te'
+      : pastForm.endsWith('e') && !pastForm.endsWith('ie')
+        ? 'e'
+        : '';
+    const stem = pastForm.slice(0, pastForm.length - ending.length);
+    const umlauted = stem.replace(
+      /(au|[aou])(?=[^aeiouäöü]*$)/,
+      (vowel) =>
+        ({ au: 'äu', a: 'ä', o: 'ö', u: 'ü' })[vowel as 'au' | 'a' | 'o' | 'u']
+    );
+    return umlauted + ending;
+  }
+
+  /**
+   * Split off a separable prefix, from the verb's prefix metadata or
+   * detected from the stored präteritum or präsens ("kam an")
+   * Returns null for multi-word infinitives
+   */
+  private splitSeparable(verb: Verb): { base: string; prefix: string } | null {
+    const infinitive = verb.infinitive.trim();
+    if (/\s/.test(infinitive)) {
+      return null;
+    }
+
+    if (verb.prefix) {
+      const { prefix, type } = verb.prefix;
+      return type === 'separable' && infinitive.startsWith(prefix)
+        ? { base: infinitive.slice(prefix.length), prefix }
+        : { base: infinitive, prefix: '' };
+    }
+
+    for (const tense of ['präteritum', 'präsens']) {
+      const words = verb.conjugations[tense]?.['er']?.trim().split(/\s+/);
+      const prefix = words && words.length === 2 ? words[1] : '';
+      if (prefix && infinitive.startsWith(prefix)) {
+        return { base: infinitive.slice(prefix.length), prefix };
+      }
+    }
+
+    return { base: infinitive, prefix: '' };
+  }
+
+  private withPrefix(
+    forms: PersonConjugations,
+    prefix: string
+  ): PersonConjugations {
+    return prefix
+      ? this.mapPersons((person) => `${forms[person]} ${prefix}`)
+      : { ...forms };
+  }
+
+  /**
+   * Read the auxiliary and participle from the stored perfekt
+   */
+  private getPerfectParts(
+    verb: Verb
+  ): { auxiliary: 'haben' | 'sein'; participle: string } | null {
+    const perfect = verb.conjugations['perfekt'];
+    const form = perfect?.['er'] || perfect?.['ich'];
+    if (!form) {
+      return null;
+    }
+
+    const [auxiliaryForm, ...rest] = form.trim().split(/\s+/);
+    const participle = rest.join(' ');
+    if (!participle) {
+      return null;
+    }
+
+    if (SEIN_PRESENT.includes(auxiliaryForm)) {
+      return { auxiliary: 'sein', participle };
+    }
+    if (HABEN_PRESENT.includes(auxiliaryForm)) {
+      return { auxiliary: 'haben', participle };
+    }
+    return null;
+  }
+
+  private mapPersons(build: (person: string) => string): PersonConjugations {
+    const conjugations = {} as PersonConjugations;
+    Object.keys(WERDEN_PRESENT).forEach((person) => {
+      conjugations[person] = build(person);
+    });
+    return conjugations;
+  }
+}
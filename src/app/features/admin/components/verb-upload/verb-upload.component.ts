@@ -2,11 +2,18 @@
 
 import { Component } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { Router, RouterLink } from '@angular/router';
 import { VerbUploadService } from '../../services/verb-upload.service';
 import { VerbDownloadService } from '../../services/verb-download.service';
+import {
+  ConjugationGeneratorService,
+  PrincipalParts,
+} from '../../services/conjugation-generator.service';
 import { CacheService } from '../../../../core/services/cache.service';
-import { Verb } from '../../../../core/models/verb.model';
+import { PrefixDetectorService } from '../../../../core/services/prefix-detector.service';
+import { Verb, VerbConjugations } from '../../../../core/models/verb.model';
+import { SentenceTemplate } from '../../../../core/models/sentence-template.model';
 
 type UploadStatus = 'idle' | 'validating' | 'uploading' | 'success' | 'error';
 type DownloadStatus = 'idle' | 'downloading' | 'success' | 'error';
@@ -14,7 +21,7 @@ type DownloadStatus = 'idle' | 'downloading' | 'success' | 'error';
 @Component({
   selector: 'app-verb-upload',
   standalone: true,
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, FormsModule, RouterLink],
   templateUrl: './verb-upload.component.html',
   styleUrls: ['./verb-upload.component.scss'],
 })
@@ -30,9 +37,29 @@ export class VerbUploadComponent {
   validatedVerbs: Verb[] | null = null;
   filePreview = '';
 
+  // Transitive flags (passive forms) for verbs in the database
+  transitiveInfinitives = '';
+
+  // Generate from principal parts
+  principalParts: PrincipalParts = this.getEmptyPrincipalParts();
+  generatorTranslation = '';
+  generatorDifficulty = 3;
+  generatorTransitive = false;
+  generatedConjugations: VerbConjugations | null = null;
+  generatorPersons = ['ich', 'du', 'er', 'wir', 'ihr', 'sie'];
+
+  // Sentence templates (cloze questions)
+  templateFile: File | null = null;
+  templateStatus: UploadStatus = 'idle';
+  templateErrors: string[] = [];
+  validatedTemplates: SentenceTemplate[] | null = null;
+  templateMessage = '';
+
   constructor(
     private verbUploadService: VerbUploadService,
     private verbDownloadService: VerbDownloadService,
+    private conjugationGenerator: ConjugationGeneratorService,
+    private prefixDetector: PrefixDetectorService,
     private cacheService: CacheService,
     private router: Router
   ) {}
@@ -102,7 +129,7 @@ export class VerbUploadComponent {
       if (result.valid && result.verbs) {
         console.log('✅ Validation successful:', result.verbs.length, 'verbs');
         this.uploadStatus = 'idle';
-        this.validatedVerbs = result.verbs;
+        this.validatedVerbs = this.fillMissingPrefixes(result.verbs).verbs;
         this.validationErrors = [];
       } else {
         console.error('❌ Validation failed:', result.errors);
@@ -361,6 +388,382 @@ export class VerbUploadComponent {
     reader.readAsText(this.selectedFile);
   }
 
+  // ==================== PREFIX DETECTION ====================
+
+  /**
+   * Detect prefixes for all verbs in the database that don't have one yet
+   */
+  detectPrefixesInDatabase(): void {
+    if (
+      !confirm(
+        'This will auto-detect separable/inseparable prefixes for verbs in the database that have none. Continue?'
+      )
+    ) {
+      return;
+    }
+
+    this.uploadStatus = 'uploading';
+    this.isLoading = true;
+    this.validationErrors = [];
+
+    this.verbDownloadService.downloadAllVerbs().subscribe({
+      next: (result) => {
+        if (!result.success || !result.verbs) {
+          this.isLoading = false;
+          this.uploadStatus = 'error';
+          this.validationErrors = ['Failed to download existing verbs'];
+          return;
+        }
+
+        const { verbs, detectedCount } = this.fillMissingPrefixes(result.verbs);
+
+        if (detectedCount === 0) {
+          this.isLoading = false;
+          this.uploadStatus = 'success';
+          this.uploadResult = {
+            count: 0,
+            message: 'No new prefixes detected',
+          };
+          return;
+        }
+
+        this.verbUploadService
+          .upsertVerbs(verbs.filter((verb) => verb.prefix))
+          .subscribe({
+            next: (uploadResult) => {
+              this.isLoading = false;
+
+              if (uploadResult.success) {
+                this.uploadStatus = 'success';
+                this.uploadResult = {
+                  count: detectedCount,
+                  message: `Detected prefixes for ${detectedCount} verbs!`,
+                };
+
+                // Clear and reload cache
+                this.cacheService.clearCache();
+                this.cacheService.initializeCache().then(() => {
+                  console.log('✅ Cache reloaded with prefixes');
+                });
+              } else {
+                this.uploadStatus = 'error';
+                this.validationErrors = [
+                  uploadResult.error || 'Prefix update failed',
+                ];
+              }
+            },
+            error: (err) => {
+              this.isLoading = false;
+              this.uploadStatus = 'error';
+              this.validationErrors = [
+                'Failed to upload updated verbs: ' + err.message,
+              ];
+            },
+          });
+      },
+      error: (err) => {
+        this.isLoading = false;
+        this.uploadStatus = 'error';
+        this.validationErrors = [
+          'Failed to fetch existing verbs: ' + err.message,
+        ];
+      },
+    });
+  }
+
+  /**
+   * Keep prefixes set by admins; detect the rest
+   */
+  private fillMissingPrefixes(verbs: Verb[]): {
+    verbs: Verb[];
+    detectedCount: number;
+  } {
+    let detectedCount = 0;
+
+    const filled = verbs.map((verb) => {
+      if (verb.prefix) {
+        return verb;
+      }
+
+      const prefix = this.prefixDetector.detect(verb);
+      if (!prefix) {
+        return verb;
+      }
+
+      detectedCount++;
+      return { ...verb, prefix };
+    });
+
+    console.log(`🔤 Detected prefixes for ${detectedCount} verbs`);
+    return { verbs: filled, detectedCount };
+  }
+
+  // ==================== TRANSITIVE VERBS ====================
+
+  /**
+   * Flag the listed database verbs transitive, so passive forms are
+   * derived for them
+   */
+  markTransitiveInDatabase(): void {
+    const infinitives = new Set(
+      this.transitiveInfinitives
+        .split(/[\s,]+/)
+        .map((infinitive) => infinitive.trim().toLowerCase())
+        .filter((infinitive) => infinitive)
+    );
+
+    if (infinitives.size === 0) {
+      return;
+    }
+
+    this.uploadStatus = 'uploading';
+    this.isLoading = true;
+    this.validationErrors = [];
+
+    this.verbDownloadService.downloadAllVerbs().subscribe({
+      next: (result) => {
+        if (!result.success || !result.verbs) {
+          this.isLoading = false;
+          this.uploadStatus = 'error';
+          this.validationErrors = ['Failed to download existing verbs'];
+          return;
+        }
+
+        const verbs = result.verbs
+          .filter((verb) => infinitives.has(verb.infinitive.toLowerCase()))
+          .map((verb) => ({ ...verb, transitive: true }));
+        const found = new Set(
+          verbs.map((verb) => verb.infinitive.toLowerCase())
+        );
+        const missing = [...infinitives].filter(
+          (infinitive) => !found.has(infinitive)
+        );
+
+        if (verbs.length === 0) {
+          this.isLoading = false;
+          this.uploadStatus = 'error';
+          this.validationErrors = [`Verbs not found: ${missing.join(', ')}`];
+          return;
+        }
+
+        this.verbUploadService.upsertVerbs(verbs).subscribe({
+          next: (uploadResult) => {
+            this.isLoading = false;
+
+            if (uploadResult.success) {
+              this.uploadStatus = 'success';
+              this.uploadResult = {
+                count: verbs.length,
+                message: `Marked ${verbs.length} verbs transitive!`,
+              };
+              this.validationErrors = missing.length
+                ? [`Verbs not found: ${missing.join(', ')}`]
+                : [];
+              this.transitiveInfinitives = '';
+
+              // Clear and reload cache
+              this.cacheService.clearCache();
+              this.cacheService.initializeCache().then(() => {
+                console.log('✅ Cache reloaded with transitive verbs');
+              });
+            } else {
+              this.uploadStatus = 'error';
+              this.validationErrors = [
+                uploadResult.error || 'Transitive update failed',
+              ];
+            }
+          },
+          error: (err) => {
+            this.isLoading = false;
+            this.uploadStatus = 'error';
+            this.validationErrors = [
+              'Failed to upload updated verbs: ' + err.message,
+            ];
+          },
+        });
+      },
+      error: (err) => {
+        this.isLoading = false;
+        this.uploadStatus = 'error';
+        this.validationErrors = [
+          'Failed to fetch existing verbs: ' + err.message,
+        ];
+      },
+    });
+  }
+
+  // ==================== GENERATE FROM PRINCIPAL PARTS ====================
+
+  generateFromParts(): void {
+    if (!this.principalParts.infinitive.trim()) {
+      alert('Please enter an infinitive');
+      return;
+    }
+
+    this.generatedConjugations = this.conjugationGenerator.generateConjugations(
+      this.principalParts
+    );
+    console.log('✅ Generated conjugations:', this.generatedConjugations);
+  }
+
+  get generatedTenses(): string[] {
+    return this.generatedConjugations
+      ? Object.keys(this.generatedConjugations)
+      : [];
+  }
+
+  /**
+   * Add the reviewed verb to the upload list, through the same
+   * validation as uploaded files
+   */
+  addGeneratedVerb(): void {
+    if (!this.generatedConjugations) {
+      return;
+    }
+
+    const infinitive = this.principalParts.infinitive.trim().toLowerCase();
+    const separablePrefix = (this.principalParts.separablePrefix || '')
+      .trim()
+      .toLowerCase();
+    const inseparablePrefix = (this.principalParts.inseparablePrefix || '')
+      .trim()
+      .toLowerCase();
+
+    const draft = {
+      infinitive,
+      english_translation: this.generatorTranslation.trim(),
+      verb_type: this.principalParts.verbType,
+      stem: this.conjugationGenerator.getVerbStem(this.principalParts),
+      difficulty_level: Number(this.generatorDifficulty),
+      transitive: this.generatorTransitive,
+      conjugations: this.generatedConjugations,
+      prefix: separablePrefix
+        ? { prefix: separablePrefix, type: 'separable' }
+        : inseparablePrefix
+          ? { prefix: inseparablePrefix, type: 'inseparable' }
+          : this.prefixDetector.detect({
+              infinitive,
+              conjugations: this.generatedConjugations,
+            }) || undefined,
+    };
+
+    const result = this.verbUploadService.validateVerbsJSON(
+      JSON.stringify([...(this.validatedVerbs || []), draft])
+    );
+
+    if (result.valid && result.verbs) {
+      this.validatedVerbs = result.verbs;
+      this.validationErrors = [];
+      this.uploadStatus = 'idle';
+      this.discardGenerated();
+    } else {
+      this.validationErrors = result.errors || ['Unknown validation error'];
+    }
+  }
+
+  discardGenerated(): void {
+    this.principalParts = this.getEmptyPrincipalParts();
+    this.generatorTranslation = '';
+    this.generatorDifficulty = 3;
+    this.generatorTransitive = false;
+    this.generatedConjugations = null;
+  }
+
+  private getEmptyPrincipalParts(): PrincipalParts {
+    return {
+      infinitive: '',
+      verbType: 'weak',
+      auxiliary: 'haben',
+      separablePrefix: '',
+      inseparablePrefix: '',
+      pastStem: '',
+      participle: '',
+      presentStem: '',
+    };
+  }
+
+  // ==================== SENTENCE TEMPLATES ====================
+
+  onTemplateFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) {
+      return;
+    }
+
+    this.templateFile = input.files[0];
+    this.templateStatus = 'idle';
+    this.templateErrors = [];
+    this.validatedTemplates = null;
+    this.templateMessage = '';
+  }
+
+  validateTemplateFile(): void {
+    if (!this.templateFile) {
+      return;
+    }
+
+    this.templateStatus = 'validating';
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const content = e.target?.result as string;
+      const result =
+        this.verbUploadService.validateSentenceTemplatesJSON(content);
+
+      if (result.valid && result.templates) {
+        this.templateStatus = 'idle';
+        this.validatedTemplates = result.templates;
+        this.templateErrors = [];
+      } else {
+        this.templateStatus = 'error';
+        this.templateErrors = result.errors || ['Unknown validation error'];
+        this.validatedTemplates = null;
+      }
+    };
+
+    reader.onerror = () => {
+      this.templateStatus = 'error';
+      this.templateErrors = ['Failed to read file'];
+    };
+
+    reader.readAsText(this.templateFile);
+  }
+
+  uploadTemplates(): void {
+    if (!this.validatedTemplates || this.validatedTemplates.length === 0) {
+      alert('Please validate the file first');
+      return;
+    }
+
+    this.templateStatus = 'uploading';
+
+    this.verbUploadService
+      .upsertSentenceTemplates(this.validatedTemplates)
+      .subscribe({
+        next: (result) => {
+          if (result.success) {
+            this.templateStatus = 'success';
+            this.templateMessage = `Successfully saved ${result.count} sentence templates!`;
+            this.validatedTemplates = null;
+
+            // Clear and reload cache so new sentences are used
+            this.cacheService.clearCache();
+            this.cacheService.initializeCache().then(() => {
+              console.log('✅ Cache reloaded with sentence templates');
+            });
+          } else {
+            this.templateStatus = 'error';
+            this.templateErrors = [result.error || 'Upload failed'];
+          }
+        },
+        error: (err) => {
+          this.templateStatus = 'error';
+          console.error('❌ Template upload error:', err);
+          this.templateErrors = ['An unexpected error occurred during upload'];
+        },
+      });
+  }
+
   goBack(): void {
     this.router.navigate(['/config']);
   }
@@ -1,3 +1,4 @@
 export * from './components/verb-upload/verb-upload.component';
 export * from './services/verb-upload.service';
 export * from './services/verb-download.service';
+export * from './services/conjugation-generator.service';
@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  ConjugationGeneratorService,
+  PrincipalParts,
+} from './conjugation-generator.service';
+
+describe('ConjugationGeneratorService', () => {
+  let service: ConjugationGeneratorService;
+
+  const weakVerb = (
+    infinitive: string,
+    extra: Partial<PrincipalParts> = {}
+  ): PrincipalParts => ({
+    infinitive,
+    verbType: 'weak',
+    auxiliary: 'haben',
+    ...extra,
+  });
+
+  const form = (parts: PrincipalParts, tense: string, person: string) =>
+    service.generateConjugations(parts)[tense]?.[person];
+
+  const participle = (parts: PrincipalParts) =>
+    form(parts, 'perfekt', 'er')?.split(' ').pop();
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ConjugationGeneratorService);
+  });
+
+  it('adds ge- to verbs that only look like they have an inseparable prefix', () => {
+    expect(participle(weakVerb('bellen'))).toBe('gebellt');
+    expect(participle(weakVerb('ernten'))).toBe('geerntet');
+    expect(participle(weakVerb('geigen'))).toBe('gegeigt');
+    expect(participle(weakVerb('bessern'))).toBe('gebessert');
+    expect(participle(weakVerb('betteln'))).toBe('gebettelt');
+  });
+
+  it('leaves out ge- for a given inseparable prefix', () => {
+    expect(participle(weakVerb('besuchen', { inseparablePrefix: 'be' }))).toBe(
+      'besucht'
+    );
+    expect(
+      participle(weakVerb('verkaufen', { inseparablePrefix: 'ver' }))
+    ).toBe('verkauft');
+  });
+
+  it('leaves out ge- for -ieren verbs', () => {
+    expect(participle(weakVerb('studieren'))).toBe('studiert');
+  });
+
+  it('puts ge- after a separable prefix', () => {
+    const parts = weakVerb('abholen', { separablePrefix: 'ab' });
+
+    expect(participle(parts)).toBe('abgeholt');
+    expect(form(parts, 'präsens', 'ich')).toBe('hole ab');
+  });
+
+  it('keeps a given participle', () => {
+    const parts: PrincipalParts = {
+      infinitive: 'ankommen',
+      verbType: 'strong',
+      auxiliary: 'sein',
+      separablePrefix: 'an',
+      pastStem: 'kam',
+      participle: 'angekommen',
+    };
+
+    expect(form(parts, 'perfekt', 'er')).toBe('ist angekommen');
+  });
+});
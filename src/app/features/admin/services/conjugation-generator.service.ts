@@ -0,0 +1,258 @@
+import { Injectable } from '@angular/core';
+import {
+  PersonConjugations,
+  Verb,
+  VerbConjugations,
+  VerbType,
+} from '../../../core/models/verb.model';
+import {
+  DERIVED_TENSES,
+  TenseDerivationService,
+} from '../../../core/services/tense-derivation.service';
+
+/**
+ * Principal parts an admin enters to generate a verb
+ * Weak verbs only need the infinitive and auxiliary
+ */
+export interface PrincipalParts {
+  infinitive: string; // Full infinitive, e.g. "ankommen"
+  verbType: VerbType;
+  auxiliary: 'haben' | 'sein';
+  separablePrefix?: string; // e.g. "an"
+  inseparablePrefix?: string; // e.g. "ver" (no ge- in the Partizip II)
+  pastStem?: string; // Präteritum ich/er form without prefix, e.g. "kam"
+  participle?: string; // Partizip II, e.g. "angekommen"
+  presentStem?: string; // Changed du/er stem, e.g. "fähr", "nimm"
+}
+
+const PERSONS = ['ich', 'du', 'er', 'wir', 'ihr', 'sie'];
+
+const AUXILIARY_PRESENT: Record<'haben' | 'sein', PersonConjugations> = {
+  haben: {
+    ich: 'habe',
+    du: 'hast',
+    er: 'hat',
+    wir: 'haben',
+    ihr: 'habt',
+    sie: 'haben',
+  },
+  sein: {
+    ich: 'bin',
+    du: 'bist',
+    er: 'ist',
+    wir: 'sind',
+    ihr: 'seid',
+    sie: 'sind',
+  },
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ConjugationGeneratorService {
+  constructor(private tenseDerivation: TenseDerivationService) {
+    console.log('🏭 ConjugationGeneratorService initialized');
+  }
+
+  /**
+   * Generate conjugations for all supported tenses from principal parts
+   */
+  generateConjugations(parts: PrincipalParts): VerbConjugations {
+    const { prefix, base } = this.splitInfinitive(parts);
+    const stem = this.getStem(base);
+
+    const conjugations: VerbConjugations = {
+      präsens: this.withPrefix(
+        this.buildPresent(base, stem, parts.presentStem),
+        prefix
+      ),
+      präteritum: this.withPrefix(this.buildPast(stem, parts.pastStem), prefix),
+      perfekt: this.mapPersons(
+        (person) =>
+          `${AUXILIARY_PRESENT[parts.auxiliary][person]} ${this.buildParticiple(parts, prefix, base, stem)}`
+      ),
+    };
+
+    // Compound tenses and subjunctives are derived, like at quiz time
+    const draft = {
+      infinitive: parts.infinitive,
+      verb_type: parts.verbType,
+      conjugations,
+    } as Verb;
+    DERIVED_TENSES.forEach((tense) => {
+      conjugations[tense] = this.tenseDerivation.deriveTense(draft, tense);
+    });
+
+    return conjugations;
+  }
+
+  /**
+   * Get the stem stored on the verb (prefix included, e.g. "ankomm")
+   */
+  getVerbStem(parts: PrincipalParts): string {
+    const { prefix, base } = this.splitInfinitive(parts);
+    return prefix + this.getStem(base);
+  }
+
+  // ==================== TENSES ====================
+
+  /**
+   * Präsens with e-insertion (arbeitest), s/z stems (reist) and
+   * an optional du/er stem change (fährst, nimmt, hält)
+   */
+  private buildPresent(
+    base: string,
+    stem: string,
+    presentStem?: string
+  ): PersonConjugations {
+    const linkingE = this.needsLinkingE(stem);
+    const changedStem = presentStem?.trim();
+
+    // -eln verbs drop the e in the ich form (sammle)
+    const ichStem = base.endsWith('eln') ? stem.slice(0, -2) + 'l' : stem;
+
+    let du: string;
+    let er: string;
+    if (changedStem) {
+      du = changedStem + (this.isSibilant(changedStem) ? 't' : 'st');
+      er = changedStem.endsWith('t') ? changedStem : changedStem + 't';
+    } else {
+      du = stem + (linkingE ? 'est' : this.isSibilant(stem) ? 't' : 'st');
+      er = stem + (linkingE ? 'et' : 't');
+    }
+
+    return {
+      ich: ichStem + 'e',
+      du,
+      er,
+      wir: base,
+      ihr: stem + (linkingE ? 'et' : 't'),
+      sie: base,
+    };
+  }
+
+  /**
+   * Präteritum: weak endings on "-te" stems (arbeitete, brachte),
+   * strong endings otherwise (kam, fandest)
+   */
+  private buildPast(stem: string, pastStem?: string): PersonConjugations {
+    const past =
+      pastStem?.trim() || stem + (this.needsLinkingE(stem) ? 'ete' : 'te');
+
+    if (past.endsWith('e')) {
+      return {
+        ich: past,
+        du: past + 'st',
+        er: past,
+        wir: past + 'n',
+        ihr: past + 't',
+        sie: past + 'n',
+      };
+    }
+
+    return {
+      ich: past,
+      du: past + (/[dtsßz]$/.test(past) ? 'est' : 'st'),
+      er: past,
+      wir: past + 'en',
+      ihr: past + (/[dt]$/.test(past) ? 'et' : 't'),
+      sie: past + 'en',
+    };
+  }
+
+  /**
+   * Partizip II: given for strong verbs, built for weak ones
+   * Verbs with an inseparable prefix and -ieren verbs take no "ge-";
+   * the prefix must be given, since "be" starts bellen and bessern too
+   */
+  private buildParticiple(
+    parts: PrincipalParts,
+    prefix: string,
+    base: string,
+    stem: string
+  ): string {
+    const given = parts.participle?.trim();
+    if (given) {
+      return prefix && !given.startsWith(prefix) ? prefix + given : given;
+    }
+
+    const inseparablePrefix = (parts.inseparablePrefix || '')
+      .trim()
+      .toLowerCase();
+    const noGe =
+      base.endsWith('ieren') ||
+      (!!inseparablePrefix && base.startsWith(inseparablePrefix));
+
+    return (
+      prefix +
+      (noGe ? '' : 'ge') +
+      stem +
+      (this.needsLinkingE(stem) ? 'et' : 't')
+    );
+  }
+
+  // ==================== HELPERS ====================
+
+  private splitInfinitive(parts: PrincipalParts): {
+    prefix: string;
+    base: string;
+  } {
+    const infinitive = parts.infinitive.trim().toLowerCase();
+    const prefix = (parts.separablePrefix || '').trim().toLowerCase();
+
+    if (prefix && infinitive.startsWith(prefix)) {
+      return { prefix, base: infinitive.slice(prefix.length) };
+    }
+
+    return { prefix: '', base: infinitive };
+  }
+
+  /**
+   * Strip the infinitive ending (machen -> mach, sammeln -> sammel)
+   */
+  private getStem(base: string): string {
+    if (base.endsWith('eln') || base.endsWith('ern')) {
+      return base.slice(0, -1);
+    }
+    if (base.endsWith('en')) {
+      return base.slice(0, -2);
+    }
+    if (base.endsWith('n')) {
+      return base.slice(0, -1);
+    }
+    return base;
+  }
+
+  /**
+   * Stems in -d/-t or consonant + m/n need an "e" before -st/-t
+   * (arbeitest, atmet, rechnest; but lernst, kommst)
+   */
+  private needsLinkingE(stem: string): boolean {
+    return /[dt]$/.test(stem) || /[^aeiouäöülrhmn][mn]$/.test(stem);
+  }
+
+  private isSibilant(stem: string): boolean {
+    return /[sßxz]$/.test(stem);
+  }
+
+  /**
+   * Move a separable prefix to the end of simple-tense forms
+   */
+  private withPrefix(
+    forms: PersonConjugations,
+    prefix: string
+  ): PersonConjugations {
+    if (!prefix) {
+      return forms;
+    }
+    return this.mapPersons((person) => `${forms[person]} ${prefix}`);
+  }
+
+  private mapPersons(build: (person: string) => string): PersonConjugations {
+    const conjugations = {} as PersonConjugations;
+    PERSONS.forEach((person) => {
+      conjugations[person] = build(person);
+    });
+    return conjugations;
+  }
+}
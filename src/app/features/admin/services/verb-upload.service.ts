@@ -4,7 +4,12 @@ import { Injectable } from '@angular/core';
 import { Observable, from } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
 import { SupabaseService } from '../../../core/services/supabase.service';
-import { Verb } from '../../../core/models/verb.model';
+import {
+  IMPERATIVE_PERSONS,
+  REFLEXIVE_PRONOUNS,
+  Verb,
+} from '../../../core/models/verb.model';
+import { SentenceTemplate } from '../../../core/models/sentence-template.model';
 
 interface ValidationResult {
   valid: boolean;
@@ -12,6 +17,28 @@ interface ValidationResult {
   errors?: string[];
 }
 
+interface TemplateValidationResult {
+  valid: boolean;
+  templates?: SentenceTemplate[];
+  errors?: string[];
+}
+
+// Known conjugation keys: indicative tenses, then subjunctive forms
+const VALID_TENSES = [
+  'präsens',
+  'präteritum',
+  'perfekt',
+  'plusquamperfekt',
+  'futur',
+  'futur2',
+  'konjunktiv1',
+  'konjunktiv2',
+  'konjunktiv2past',
+  'würde',
+];
+
+const TEMPLATE_PERSONS = ['ich', 'du', 'er', 'wir', 'ihr', 'sie'];
+
 interface UploadResult {
   success: boolean;
   count: number;
@@ -193,6 +220,13 @@ export class VerbUploadService {
 
       // Validate each tense
       tenses.forEach((tense) => {
+        if (!VALID_TENSES.includes(tense)) {
+          errors.push(
+            `${prefix}${verbName}: Unknown tense '${tense}'. Must be one of: ${VALID_TENSES.join(', ')}`
+          );
+          return;
+        }
+
         const tenseConjugations = verb.conjugations[tense];
         if (typeof tenseConjugations !== 'object') {
           errors.push(
@@ -219,6 +253,197 @@ export class VerbUploadService {
       });
     }
 
+    // Transitivity (optional, enables passive questions)
+    if (verb.transitive !== undefined && typeof verb.transitive !== 'boolean') {
+      errors.push(`${prefix}${verbName}: 'transitive' must be true or false`);
+    }
+
+    // Reflexive (optional): flag, pronoun case and pronoun agreement
+    if (verb.reflexive !== undefined && typeof verb.reflexive !== 'boolean') {
+      errors.push(`${prefix}${verbName}: 'reflexive' must be true or false`);
+    }
+    if (verb.reflexive_case !== undefined) {
+      if (!['accusative', 'dative'].includes(verb.reflexive_case)) {
+        errors.push(
+          `${prefix}${verbName}: 'reflexive_case' must be 'accusative' or 'dative'`
+        );
+      } else if (verb.reflexive !== true) {
+        errors.push(
+          `${prefix}${verbName}: 'reflexive_case' requires 'reflexive: true'`
+        );
+      }
+    }
+    if (
+      verb.reflexive === true &&
+      verb.conjugations &&
+      typeof verb.conjugations === 'object'
+    ) {
+      errors.push(...this.validateReflexiveForms(verb, `${prefix}${verbName}`));
+    }
+
+    // Alternative auxiliary (optional, for verbs taking haben and sein)
+    if (verb.alternative_auxiliary !== undefined) {
+      errors.push(
+        ...this.validateAlternativeAuxiliary(verb, `${prefix}${verbName}`)
+      );
+    }
+
+    // Prefix (optional, auto-detected on upload when missing)
+    if (verb.prefix !== undefined) {
+      if (
+        !verb.prefix ||
+        typeof verb.prefix.prefix !== 'string' ||
+        !['separable', 'inseparable'].includes(verb.prefix.type)
+      ) {
+        errors.push(
+          `${prefix}${verbName}: 'prefix' must be { prefix: string, type: 'separable' | 'inseparable' }`
+        );
+      } else if (
+        typeof verb.infinitive === 'string' &&
+        !verb.infinitive.toLowerCase().startsWith(verb.prefix.prefix)
+      ) {
+        errors.push(
+          `${prefix}${verbName}: Prefix '${verb.prefix.prefix}' does not start the infinitive`
+        );
+      }
+    }
+
+    // Imperative (optional, derived when missing)
+    if (verb.imperative !== undefined) {
+      if (!verb.imperative || typeof verb.imperative !== 'object') {
+        errors.push(`${prefix}${verbName}: 'imperative' must be an object`);
+      } else {
+        IMPERATIVE_PERSONS.forEach((person) => {
+          if (typeof verb.imperative[person] !== 'string') {
+            errors.push(
+              `${prefix}${verbName}: Imperative for '${person}' must be a string`
+            );
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * The alternative must differ from the perfekt's auxiliary and come
+   * with context sentences, at least one using it
+   */
+  private validateAlternativeAuxiliary(verb: any, label: string): string[] {
+    const errors: string[] = [];
+    const alternative = verb.alternative_auxiliary;
+    const auxiliaries = ['haben', 'sein'];
+
+    if (
+      !alternative ||
+      typeof alternative !== 'object' ||
+      !auxiliaries.includes(alternative.auxiliary)
+    ) {
+      return [
+        `${label}: 'alternative_auxiliary.auxiliary' must be 'haben' or 'sein'`,
+      ];
+    }
+
+    const perfectAuxiliary = verb.conjugations?.perfekt?.er
+      ?.trim()
+      .split(/\s+/)[0];
+    if (
+      (alternative.auxiliary === 'haben' && perfectAuxiliary === 'hat') ||
+      (alternative.auxiliary === 'sein' && perfectAuxiliary === 'ist')
+    ) {
+      errors.push(
+        `${label}: 'alternative_auxiliary' must differ from the perfekt's auxiliary`
+      );
+    }
+
+    if (
+      !Array.isArray(alternative.contexts) ||
+      alternative.contexts.length === 0
+    ) {
+      errors.push(
+        `${label}: 'alternative_auxiliary.contexts' must be a non-empty array`
+      );
+      return errors;
+    }
+
+    alternative.contexts.forEach((context: any, i: number) => {
+      if (
+        !context ||
+        !auxiliaries.includes(context.auxiliary) ||
+        typeof context.sentence !== 'string' ||
+        (context.explanation !== undefined &&
+          typeof context.explanation !== 'string')
+      ) {
+        errors.push(
+          `${label}: Context ${i + 1} must be { auxiliary: 'haben' | 'sein', sentence: string, explanation?: string }`
+        );
+      }
+    });
+
+    if (
+      !alternative.contexts.some(
+        (context: any) => context?.auxiliary === alternative.auxiliary
+      )
+    ) {
+      errors.push(
+        `${label}: 'alternative_auxiliary.contexts' needs a sentence using '${alternative.auxiliary}'`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Stored forms may include the reflexive pronoun ("wasche mich") or
+   * leave it to the quiz, but consistently per tense, and it must
+   * match each person and the verb's case
+   */
+  private validateReflexiveForms(verb: any, label: string): string[] {
+    const errors: string[] = [];
+    const expected =
+      REFLEXIVE_PRONOUNS[
+        verb.reflexive_case === 'dative' ? 'dative' : 'accusative'
+      ];
+    const allPronouns = new Set(
+      Object.values(REFLEXIVE_PRONOUNS).flatMap((pronouns) =>
+        Object.values(pronouns)
+      )
+    );
+
+    Object.entries(verb.conjugations).forEach(
+      ([tense, forms]: [string, any]) => {
+        if (!forms || typeof forms !== 'object') {
+          return;
+        }
+
+        const persons = Object.keys(forms).filter(
+          (person) => typeof forms[person] === 'string'
+        );
+        const withPronoun = persons.filter((person) => {
+          // The finite verb comes first, so skip it ("uns" vs. a verb)
+          const found = forms[person]
+            .toLowerCase()
+            .split(/\s+/)
+            .slice(1)
+            .find((word: string) => allPronouns.has(word));
+
+          if (found && expected[person] && found !== expected[person]) {
+            errors.push(
+              `${label}: '${tense}' - '${person}' has reflexive pronoun '${found}', expected '${expected[person]}'`
+            );
+          }
+          return !!found;
+        });
+
+        if (withPronoun.length > 0 && withPronoun.length < persons.length) {
+          errors.push(
+            `${label}: '${tense}' includes the reflexive pronoun for some persons only (${withPronoun.join(', ')})`
+          );
+        }
+      }
+    );
+
     return errors;
   }
 
@@ -319,6 +544,118 @@ export class VerbUploadService {
     );
   }
 
+  /**
+   * Validate JSON string containing cloze sentence templates
+   */
+  validateSentenceTemplatesJSON(jsonString: string): TemplateValidationResult {
+    try {
+      const parsed = JSON.parse(jsonString);
+
+      if (!Array.isArray(parsed)) {
+        return {
+          valid: false,
+          errors: ['JSON must be an array of sentence templates'],
+        };
+      }
+
+      const errors: string[] = [];
+
+      parsed.forEach((item, index) => {
+        const prefix = `Template ${index + 1}`;
+
+        if (!item || typeof item !== 'object') {
+          errors.push(`${prefix}: Must be an object`);
+          return;
+        }
+        if (!VALID_TENSES.includes(item.tense)) {
+          errors.push(
+            `${prefix}: 'tense' must be one of: ${VALID_TENSES.join(', ')}`
+          );
+        }
+        if (!TEMPLATE_PERSONS.includes(item.person)) {
+          errors.push(
+            `${prefix}: 'person' must be one of: ${TEMPLATE_PERSONS.join(', ')}`
+          );
+        }
+        if (!item.text || typeof item.text !== 'string') {
+          errors.push(`${prefix}: Missing or invalid 'text' field`);
+          return;
+        }
+        if (!item.text.includes('{subject}')) {
+          errors.push(`${prefix}: 'text' must contain a {subject} slot`);
+        }
+        if (
+          !item.text.includes('{verb}') &&
+          !(item.text.includes('{aux}') && item.text.includes('{participle}'))
+        ) {
+          errors.push(
+            `${prefix}: 'text' must contain {verb}, or both {aux} and {participle}`
+          );
+        }
+        if (item.verbs !== undefined && !Array.isArray(item.verbs)) {
+          errors.push(`${prefix}: 'verbs' must be an array of infinitives`);
+        }
+      });
+
+      if (errors.length > 0) {
+        return { valid: false, errors };
+      }
+
+      console.log(`✅ Validated ${parsed.length} sentence templates`);
+      return { valid: true, templates: parsed as SentenceTemplate[] };
+    } catch (error) {
+      return {
+        valid: false,
+        errors: ['Invalid JSON format: ' + (error as Error).message],
+      };
+    }
+  }
+
+  /**
+   * Upsert sentence templates (templates without an id are inserted)
+   */
+  upsertSentenceTemplates(
+    templates: SentenceTemplate[]
+  ): Observable<UploadResult> {
+    console.log(`🔄 Upserting ${templates.length} sentence templates...`);
+
+    const client = this.supabaseService.getClient();
+
+    return from(
+      client
+        .from('sentence_templates')
+        .upsert(templates, { onConflict: 'id', defaultToNull: false })
+        .select()
+    ).pipe(
+      map(({ data, error }) => {
+        if (error) {
+          console.error('❌ Sentence template upsert failed:', error);
+          return {
+            success: false,
+            count: 0,
+            error: error.message || 'Upsert failed',
+          };
+        }
+
+        console.log(`✅ Upserted ${data?.length || 0} sentence templates`);
+        return {
+          success: true,
+          count: data?.length || 0,
+        };
+      }),
+      catchError((error) => {
+        console.error('❌ Upsert error:', error);
+        return from([
+          {
+            success: false,
+            count: 0,
+            error: error.message || 'An unexpected error occurred',
+          },
+        ]);
+      })
+    );
+  }
+
   /**   * Generate template JSON for verb structure
    */
   generateTemplate(): string {
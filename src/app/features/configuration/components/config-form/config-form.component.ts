@@ -5,7 +5,21 @@ import { Router } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
 import { ConfigService } from '../../services/config.service';
 import { VerbService } from '../../../quiz/services/verb.service';
-import { TestConfig, VerbType } from '../../../../core/models';
+import { ReviewSchedulerService } from '../../../quiz/services/review-scheduler.service';
+import { HistoryService } from '../../../history/services/history.service';
+import { QuizSessionService } from '../../../quiz/services/quiz-session.service';
+import { QuizSession } from '../../../quiz/models/quiz-session.model';
+import {
+  AnswerStrictness,
+  QuestionType,
+  QuizSelectionMode,
+  QuizTimeLimit,
+  SamplingStrategy,
+  SUBJUNCTIVE_TENSES,
+  TestConfig,
+  VerbType,
+  Voice,
+} from '../../../../core/models';
 
 @Component({
   selector: 'app-config-form',
@@ -27,10 +41,157 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
 
   // Available options
   availableTenses: string[] = [];
+  indicativeTenses: string[] = [];
+  subjunctiveTenses: string[] = [];
   availableVerbTypes: string[] = [];
   availablePersons = ['ich', 'du', 'er/sie/es', 'wir', 'ihr', 'sie/Sie'];
   availableDifficulties = [1, 2, 3, 4, 5];
   questionCountOptions = [5, 10, 15, 20, 25, 30];
+  strictnessOptions: {
+    value: AnswerStrictness;
+    label: string;
+    title: string;
+  }[] = [
+    {
+      value: 'strict',
+      label: 'Strict',
+      title: 'Umlauts and ß must be typed exactly',
+    },
+    {
+      value: 'lenient-transliteration',
+      label: 'ae / oe / ue / ss',
+      title: 'Accept ae, oe, ue and ss for ä, ö, ü and ß',
+    },
+    {
+      value: 'swiss',
+      label: 'Swiss (ss)',
+      title: 'Accept ss for ß, as in Swiss spelling',
+    },
+  ];
+
+  samplingOptions: {
+    value: SamplingStrategy;
+    label: string;
+    title: string;
+  }[] = [
+    {
+      value: 'uniform',
+      label: 'Uniform',
+      title: 'Every verb/tense/person combination is equally likely',
+    },
+    {
+      value: 'balanced',
+      label: 'Balanced',
+      title: 'Tenses, persons and verb types come up about equally often',
+    },
+    {
+      value: 'one-per-verb',
+      label: 'One per verb',
+      title: 'Never ask the same verb twice in a quiz',
+    },
+  ];
+
+  // Speed-run limits in seconds (0 = no limit)
+  perQuestionLimitOptions = [
+    { value: 0, label: 'Off' },
+    { value: 5, label: '5 s' },
+    { value: 10, label: '10 s' },
+    { value: 20, label: '20 s' },
+    { value: 30, label: '30 s' },
+  ];
+  totalLimitOptions = [
+    { value: 0, label: 'Off' },
+    { value: 60, label: '1 min' },
+    { value: 120, label: '2 min' },
+    { value: 300, label: '5 min' },
+    { value: 600, label: '10 min' },
+  ];
+
+  // Survival mistakes allowed (0 = fixed-length quiz)
+  survivalOptions = [
+    { value: 0, label: 'Off' },
+    { value: 1, label: '1 (sudden death)' },
+    { value: 3, label: '3' },
+    { value: 5, label: '5' },
+  ];
+
+  // Points a hint level takes off a correct answer (0 = hints are free)
+  hintPenaltyOptions = [
+    { value: 0, label: 'None' },
+    { value: 0.1, label: '0.1 per level' },
+    { value: 0.25, label: '0.25 per level' },
+  ];
+
+  voiceOptions: { value: Voice; label: string; title: string }[] = [
+    {
+      value: 'aktiv',
+      label: 'Active',
+      title: 'Regular active forms (er öffnet)',
+    },
+    {
+      value: 'vorgangspassiv',
+      label: 'Passive (werden)',
+      title: 'Process passive: something is being done (es wird geöffnet)',
+    },
+    {
+      value: 'zustandspassiv',
+      label: 'State passive (sein)',
+      title: 'State passive: the result of an action (es ist geöffnet)',
+    },
+  ];
+
+  questionTypeOptions: {
+    value: QuestionType;
+    label: string;
+    title: string;
+  }[] = [
+    {
+      value: 'typed',
+      label: 'Typed',
+      title: 'Type the conjugated form from memory',
+    },
+    {
+      value: 'multiple-choice',
+      label: 'Multiple choice',
+      title: 'Pick the correct form among similar-looking options',
+    },
+    {
+      value: 'reverse',
+      label: 'Identify form',
+      title: 'Name the infinitive, tense and person of a conjugated form',
+    },
+    {
+      value: 'table',
+      label: 'Full table',
+      title: 'Fill in all six persons of a tense at once',
+    },
+    {
+      value: 'cloze',
+      label: 'Sentences',
+      title: 'Fill the verb into a gap in a German sentence',
+    },
+    {
+      value: 'imperative',
+      label: 'Imperative',
+      title: 'Give commands with the du, ihr, wir and Sie forms',
+    },
+    {
+      value: 'principal-parts',
+      label: 'Principal parts',
+      title: 'Give präteritum, Partizip II and auxiliary (ging, gegangen, ist)',
+    },
+    {
+      value: 'auxiliary',
+      label: 'haben or sein',
+      title: 'Rapid-fire: pick the perfekt auxiliary, with the rule behind it',
+    },
+    {
+      value: 'clause',
+      label: 'Main/subordinate clause',
+      title:
+        'Place separable verbs in main clauses (rufe an) and subordinate clauses (anrufe)',
+    },
+  ];
 
   // Validation state
   validationErrors: string[] = [];
@@ -39,10 +200,18 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
   // Statistics
   availableVerbCount = 0;
   estimatedQuizTime = 0;
+  dueReviewCount = 0;
+  hasConjugationHistory = false;
+
+  // Unfinished quiz that can be resumed
+  savedSession: QuizSession | null = null;
 
   constructor(
     private configService: ConfigService,
     private verbService: VerbService,
+    private reviewScheduler: ReviewSchedulerService,
+    private historyService: HistoryService,
+    private sessionService: QuizSessionService,
     private router: Router
   ) {}
 
@@ -57,8 +226,20 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
 
     // Get available options from verb cache
     this.availableTenses = this.verbService.getAvailableTenses();
+    this.indicativeTenses = this.availableTenses.filter(
+      (tense) => !SUBJUNCTIVE_TENSES.includes(tense)
+    );
+    this.subjunctiveTenses = this.availableTenses.filter((tense) =>
+      SUBJUNCTIVE_TENSES.includes(tense)
+    );
     this.availableVerbTypes = this.verbService.getAvailableVerbTypes();
 
+    // Number of verb/tense/person cells waiting for review
+    this.dueReviewCount = this.reviewScheduler.getDueCount();
+    this.hasConjugationHistory =
+      this.historyService.getConjugationResults().length > 0;
+    this.savedSession = this.sessionService.getSession();
+
     // Initial statistics
     this.updateStatistics();
   }
@@ -129,6 +310,14 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
     return this.config.difficultyLevels?.includes(level) || false;
   }
 
+  setSelectionMode(mode: QuizSelectionMode): void {
+    this.config.selectionMode = mode;
+  }
+
+  isSelectionModeSelected(mode: QuizSelectionMode): boolean {
+    return (this.config.selectionMode || 'random') === mode;
+  }
+
   // ==================== SELECT ALL / NONE ====================
 
   selectAllTenses(): void {
@@ -238,13 +427,44 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
       );
     }
 
+    // Passive forms are only derived for verbs flagged transitive
+    if (
+      ['typed', 'multiple-choice', 'cloze'].includes(
+        this.config.questionType || 'typed'
+      )
+    ) {
+      const verbs = this.verbService.getVerbsWithConjugations(
+        this.config.tenses,
+        this.config.persons,
+        {
+          verbTypes: this.config.verbTypes as VerbType[],
+          difficultyLevels: this.config.difficultyLevels,
+          infinitives: this.config.specificVerbs,
+        }
+      );
+      this.voiceOptions
+        .filter(
+          (option) =>
+            option.value !== 'aktiv' &&
+            this.isVoiceSelected(option.value) &&
+            !verbs.some((verb) =>
+              this.verbService.hasVoice(verb, option.value, this.config.tenses)
+            )
+        )
+        .forEach((option) =>
+          this.validationErrors.push(
+            `No selected verb has ${option.label} forms. Passive forms need verbs marked transitive.`
+          )
+        );
+    }
+
     return this.validationErrors.length === 0;
   }
 
   // ==================== ACTIONS ====================
 
   startQuiz(): void {
-    if (!this.validateConfig()) {
+    if (!this.validateConfig() || !this.confirmDiscardSession()) {
       return;
     }
 
@@ -255,6 +475,124 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
     this.router.navigate(['/quiz']);
   }
 
+  /**
+   * Continue the unfinished quiz where it was left
+   */
+  resumeQuiz(): void {
+    if (this.savedSession) {
+      this.router.navigate(['/quiz'], {
+        state: { sessionId: this.savedSession.id },
+      });
+    }
+  }
+
+  discardSession(): void {
+    this.sessionService.clearSession();
+    this.savedSession = null;
+  }
+
+  /**
+   * A new quiz replaces the unfinished one, so ask first
+   */
+  private confirmDiscardSession(): boolean {
+    return (
+      !this.savedSession ||
+      window.confirm(
+        'Start a new quiz? Your unfinished quiz will be discarded.'
+      )
+    );
+  }
+
+  /**
+   * Progress of the unfinished quiz ("Question 4 of 10")
+   */
+  get savedSessionLabel(): string {
+    if (!this.savedSession) return '';
+
+    const current = this.savedSession.currentQuestionIndex + 1;
+    return this.savedSession.fixedLength
+      ? `Question ${current} of ${this.savedSession.questions.length}`
+      : `Question ${current}`;
+  }
+
+  setSampling(sampling: SamplingStrategy): void {
+    this.config.sampling = sampling;
+  }
+
+  isSamplingSelected(sampling: SamplingStrategy): boolean {
+    return (this.config.sampling || 'uniform') === sampling;
+  }
+
+  /**
+   * Set one speed-run limit (0 turns it off); the quiz is untimed
+   * once both are off
+   */
+  setTimeLimit(field: keyof QuizTimeLimit, seconds: number): void {
+    const timeLimit: QuizTimeLimit = {
+      ...this.config.timeLimit,
+      [field]: seconds || undefined,
+    };
+    this.config.timeLimit =
+      timeLimit.perQuestionSeconds || timeLimit.totalSeconds
+        ? timeLimit
+        : undefined;
+  }
+
+  setMaxMistakes(maxMistakes: number): void {
+    this.config.maxMistakes = maxMistakes || undefined;
+  }
+
+  setHintPenalty(hintPenalty: number): void {
+    this.config.hintPenalty = hintPenalty || undefined;
+  }
+
+  setAnswerStrictness(strictness: AnswerStrictness): void {
+    this.config.answerStrictness = strictness;
+  }
+
+  isAnswerStrictnessSelected(strictness: AnswerStrictness): boolean {
+    return (this.config.answerStrictness || 'strict') === strictness;
+  }
+
+  setQuestionType(questionType: QuestionType): void {
+    this.config.questionType = questionType;
+  }
+
+  isQuestionTypeSelected(questionType: QuestionType): boolean {
+    return (this.config.questionType || 'typed') === questionType;
+  }
+
+  /**
+   * Toggle a voice, keeping at least one selected
+   */
+  toggleVoice(voice: Voice): void {
+    const voices = this.config.voices || ['aktiv'];
+    const newVoices = voices.includes(voice)
+      ? voices.filter((v) => v !== voice)
+      : [...voices, voice];
+
+    if (newVoices.length > 0) {
+      this.config.voices = newVoices;
+    }
+  }
+
+  isVoiceSelected(voice: Voice): boolean {
+    return (this.config.voices || ['aktiv']).includes(voice);
+  }
+
+  /**
+   * One-click drill built from the user's lowest-accuracy verbs,
+   * tenses and persons; the saved selection mode is left as it is
+   */
+  practiceWeakSpots(): void {
+    if (!this.hasConjugationHistory || !this.confirmDiscardSession()) {
+      return;
+    }
+
+    const config: TestConfig = { ...this.config, selectionMode: 'weak-spots' };
+    this.router.navigate(['/quiz'], { state: { config } });
+  }
+
   resetToDefaults(): void {
     this.configService.resetToDefaults();
     this.showValidationErrors = false;
@@ -287,6 +625,11 @@ export class ConfigFormComponent implements OnInit, OnDestroy {
       perfekt: 'Present Perfect',
       plusquamperfekt: 'Past Perfect',
       futur: 'Future',
+      futur2: 'Future Perfect',
+      konjunktiv1: 'Subjunctive I',
+      konjunktiv2: 'Subjunctive II',
+      konjunktiv2past: 'Subjunctive II Past',
+      würde: 'würde + Infinitive',
     };
     return labels[tense] || tense;
   }
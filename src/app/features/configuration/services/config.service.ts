@@ -1,6 +1,13 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { TestConfig, DEFAULT_TEST_CONFIG } from '../../../core/models';
+import {
+  TestConfig,
+  DEFAULT_TEST_CONFIG,
+  QuizSelectionMode,
+  AnswerStrictness,
+  QuestionType,
+  Voice,
+} from '../../../core/models';
 import { StorageService } from '../../../core/services/storage.service';
 
 @Injectable({
@@ -108,6 +115,11 @@ export class ConfigService {
       'perfekt',
       'plusquamperfekt',
       'futur',
+      'futur2',
+      'konjunktiv1',
+      'konjunktiv2',
+      'konjunktiv2past',
+      'würde',
     ];
     const invalidTenses = config.tenses.filter((t) => !validTenses.includes(t));
     if (invalidTenses.length > 0) {
@@ -149,6 +161,135 @@ export class ConfigService {
       }
     }
 
+    // Validate selection mode if provided
+    if (
+      config.selectionMode &&
+      !['random', 'due-reviews', 'weak-spots', 'adaptive'].includes(
+        config.selectionMode
+      )
+    ) {
+      console.error(
+        '❌ Validation failed: Invalid selection mode:',
+        config.selectionMode
+      );
+      return false;
+    }
+
+    // Validate sampling strategy if provided
+    if (
+      config.sampling &&
+      !['uniform', 'balanced', 'one-per-verb'].includes(config.sampling)
+    ) {
+      console.error(
+        '❌ Validation failed: Invalid sampling strategy:',
+        config.sampling
+      );
+      return false;
+    }
+
+    // Validate answer strictness if provided
+    if (
+      config.answerStrictness &&
+      !['strict', 'lenient-transliteration', 'swiss'].includes(
+        config.answerStrictness
+      )
+    ) {
+      console.error(
+        '❌ Validation failed: Invalid answer strictness:',
+        config.answerStrictness
+      );
+      return false;
+    }
+
+    // Validate question type if provided
+    if (
+      config.questionType &&
+      ![
+        'typed',
+        'multiple-choice',
+        'reverse',
+        'table',
+        'cloze',
+        'imperative',
+        'principal-parts',
+        'auxiliary',
+        'clause',
+      ].includes(config.questionType)
+    ) {
+      console.error(
+        '❌ Validation failed: Invalid question type:',
+        config.questionType
+      );
+      return false;
+    }
+
+    // Validate voices if provided
+    if (config.voices) {
+      const validVoices = ['aktiv', 'vorgangspassiv', 'zustandspassiv'];
+      if (
+        config.voices.length === 0 ||
+        config.voices.some((v) => !validVoices.includes(v))
+      ) {
+        console.error('❌ Validation failed: Invalid voices:', config.voices);
+        return false;
+      }
+    }
+
+    // Validate time limits if provided (whole seconds)
+    if (config.timeLimit) {
+      const limits = [
+        config.timeLimit.perQuestionSeconds,
+        config.timeLimit.totalSeconds,
+      ].filter((limit) => limit !== undefined);
+      if (
+        limits.length === 0 ||
+        limits.some((limit) => !Number.isInteger(limit) || limit! < 1)
+      ) {
+        console.error(
+          '❌ Validation failed: Invalid time limit:',
+          config.timeLimit
+        );
+        return false;
+      }
+    }
+
+    // Validate survival mistakes if provided
+    if (
+      config.maxMistakes !== undefined &&
+      (!Number.isInteger(config.maxMistakes) || config.maxMistakes < 1)
+    ) {
+      console.error(
+        '❌ Validation failed: Invalid survival mistakes:',
+        config.maxMistakes
+      );
+      return false;
+    }
+
+    // Validate hint penalty if provided (points per hint level)
+    if (
+      config.hintPenalty !== undefined &&
+      (typeof config.hintPenalty !== 'number' ||
+        config.hintPenalty < 0 ||
+        config.hintPenalty > 1)
+    ) {
+      console.error(
+        '❌ Validation failed: Invalid hint penalty:',
+        config.hintPenalty
+      );
+      return false;
+    }
+
+    // Validate seed if provided (unsigned 32-bit integer)
+    if (
+      config.seed !== undefined &&
+      (!Number.isInteger(config.seed) ||
+        config.seed < 0 ||
+        config.seed > 0xffffffff)
+    ) {
+      console.error('❌ Validation failed: Invalid seed:', config.seed);
+      return false;
+    }
+
     console.log('✅ Config validation passed');
     return true;
   }
@@ -234,6 +375,26 @@ export class ConfigService {
     this.setDifficultyLevels(newLevels);
   }
 
+  // Update selection mode
+  setSelectionMode(selectionMode: QuizSelectionMode): void {
+    this.updateConfig({ selectionMode });
+  }
+
+  // Update answer strictness
+  setAnswerStrictness(answerStrictness: AnswerStrictness): void {
+    this.updateConfig({ answerStrictness });
+  }
+
+  // Update question type
+  setQuestionType(questionType: QuestionType): void {
+    this.updateConfig({ questionType });
+  }
+
+  // Update voices (active/passive)
+  setVoices(voices: Voice[]): void {
+    this.updateConfig({ voices });
+  }
+
   // Update specific verbs
   setSpecificVerbs(verbs: string[]): void {
     this.updateConfig({ specificVerbs: verbs });
@@ -1,4 +1,7 @@
+import { QuizTimeLimit, TestType } from '../../../core/models';
+
 export interface HistoryFilters {
+  testType?: TestType; // Survival runs are only included when asked for
   dateFrom?: Date;
   dateTo?: Date;
   minScore?: number;
@@ -8,4 +11,5 @@ export interface HistoryFilters {
   difficultyLevels?: number[];
   syncedOnly?: boolean;
   unsyncedOnly?: boolean;
+  timeLimit?: QuizTimeLimit | null; // Speed runs with this limit; untimed quizzes when missing
 }
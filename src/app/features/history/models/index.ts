@@ -1,2 +1,3 @@
 export * from './history-filters.model';
 export * from './statistics.model';
+export * from './weak-spot.model';
@@ -10,6 +10,7 @@ export interface Statistics {
   worstPercentage: number;
   totalDuration: number;
   averageDuration: number;
+  lenientCorrect: number; // Correct answers accepted only under a lenient spelling rule
 
   // Breakdown by tense
   byTense: {
@@ -47,6 +48,87 @@ export interface Statistics {
     };
   };
 
+  // Imperative drills, kept out of the tense and person breakdowns
+  imperative: {
+    totalQuestions: number;
+    correctAnswers: number;
+    percentage: number;
+    byPerson: {
+      [person: string]: {
+        totalQuestions: number;
+        correctAnswers: number;
+        percentage: number;
+      };
+    };
+  };
+
+  // Principal parts drills, one entry per part; "partizip" is the
+  // participle accuracy
+  principalParts: {
+    totalQuestions: number;
+    correctAnswers: number;
+    percentage: number;
+    byPart: {
+      [part: string]: {
+        totalQuestions: number;
+        correctAnswers: number;
+        percentage: number;
+      };
+    };
+  };
+
+  // haben/sein drills, by the right auxiliary
+  auxiliary: {
+    totalQuestions: number;
+    correctAnswers: number;
+    percentage: number;
+    byAuxiliary: {
+      [auxiliary: string]: {
+        totalQuestions: number;
+        correctAnswers: number;
+        percentage: number;
+      };
+    };
+  };
+
+  // Wrong answers by classified error category
+  byErrorCategory: {
+    [category: string]: number;
+  };
+
+  // Response times of correct answers (first shown to answered)
+  fluency: {
+    timedAnswers: number;
+    averageResponseMs: number;
+    averageFirstInputMs: number; // First shown to first keystroke
+    byTense: {
+      [tense: string]: {
+        timedAnswers: number;
+        averageResponseMs: number;
+      };
+    };
+    byPerson: {
+      [person: string]: {
+        timedAnswers: number;
+        averageResponseMs: number;
+      };
+    };
+    byVerbType: {
+      [verbType: string]: {
+        timedAnswers: number;
+        averageResponseMs: number;
+      };
+    };
+    // Correct but slow: right, but not yet automatic; slowest first
+    slowCorrect: {
+      verb: string;
+      tense: string;
+      person: string;
+      correctAnswers: number;
+      averageResponseMs: number;
+    }[];
+  };
+
   // Performance trend
   trend: {
     improving: boolean;
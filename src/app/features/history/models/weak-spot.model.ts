@@ -0,0 +1,16 @@
+export interface AccuracyBreakdown {
+  totalQuestions: number;
+  correctAnswers: number;
+  percentage: number;
+}
+
+/**
+ * Historical accuracy per verb, tense and person
+ * Used to build drills targeting the user's weakest areas
+ */
+export interface WeakSpotProfile {
+  totalAnswers: number;
+  byVerb: { [verb: string]: AccuracyBreakdown };
+  byTense: { [tense: string]: AccuracyBreakdown };
+  byPerson: { [person: string]: AccuracyBreakdown };
+}
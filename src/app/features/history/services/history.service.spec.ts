@@ -0,0 +1,164 @@
+import { TestBed } from '@angular/core/testing';
+import { Answer, TestResult } from '../../../core/models';
+import { StorageService } from '../../../core/services/storage.service';
+import { HistoryService } from './history.service';
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let storage: StorageService;
+
+  const result = (
+    id: string,
+    day: number,
+    extra: Partial<TestResult> = {},
+    config: object = {}
+  ): TestResult => ({
+    id,
+    test_date: `2024-03-0${day}T10:00:00.000Z`,
+    test_type: 'conjugation',
+    score: 5,
+    total_questions: 10,
+    percentage: 50,
+    test_configuration: {
+      tenses: ['präsens'],
+      verbTypes: ['weak'],
+      persons: ['ich', 'du'],
+      difficultyLevels: [1],
+      ...config,
+    },
+    answers: [],
+    synced: false,
+    client_generated_id: id,
+    ...extra,
+  });
+
+  const survival = (id: string, day: number, score: number, config = {}) =>
+    result(
+      id,
+      day,
+      { test_type: 'survival', score, total_questions: score + 3 },
+      { maxMistakes: 3, ...config }
+    );
+
+  // A correct answer given responseMs after it was shown
+  const timed = (
+    verb: string,
+    tense: string,
+    person: string,
+    responseMs: number,
+    extra: Partial<Answer> = {}
+  ): Answer => {
+    const at = (ms: number) =>
+      new Date(Date.UTC(2024, 2, 1, 10) + ms).toISOString();
+    return {
+      verb,
+      tense,
+      person,
+      correctAnswer: 'x',
+      userAnswer: 'x',
+      isCorrect: true,
+      verb_type: 'weak',
+      difficulty_level: 1,
+      shownAt: at(0),
+      answeredAt: at(responseMs),
+      ...extra,
+    };
+  };
+
+  const fluency = (answers: Answer[]) => {
+    storage.saveTestResult(result('quiz', 1, { answers }));
+    return service.getStatistics().fluency;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    storage = TestBed.inject(StorageService);
+    storage.clearAllData();
+    service = TestBed.inject(HistoryService);
+  });
+
+  describe('survival runs', () => {
+    it('keeps survival runs apart from fixed-length quizzes', () => {
+      storage.saveTestResult(result('quiz', 1));
+      storage.saveTestResult(survival('run', 2, 12));
+
+      expect(service.filterHistory({}).map((r) => r.id)).toEqual(['quiz']);
+      expect(
+        service.filterHistory({ testType: 'survival' }).map((r) => r.id)
+      ).toEqual(['run']);
+    });
+
+    it('compares a run with earlier runs of the same configuration', () => {
+      storage.saveTestResult(survival('first', 1, 12));
+      storage.saveTestResult(survival('second', 2, 20));
+      storage.saveTestResult(survival('other', 3, 30, { maxMistakes: 1 }));
+      storage.saveTestResult(survival('later', 5, 40));
+
+      expect(service.getSurvivalRecord(survival('run', 4, 15))).toEqual({
+        runs: 2,
+        bestScore: 20,
+      });
+    });
+
+    it('has no best score for a first run', () => {
+      storage.saveTestResult(
+        result('quiz', 1, { score: 9 }, { maxMistakes: 3 })
+      );
+
+      expect(service.getSurvivalRecord(survival('run', 2, 15))).toEqual({
+        runs: 0,
+        bestScore: null,
+      });
+    });
+  });
+
+  describe('fluency', () => {
+    it('averages the response times of correct, single recalls', () => {
+      const stats = fluency([
+        timed('machen', 'präsens', 'ich', 2000, {
+          firstInputAt: '2024-03-01T10:00:00.500Z',
+        }),
+        timed('machen', 'präsens', 'du', 4000, {
+          firstInputAt: '2024-03-01T10:00:01.500Z',
+        }),
+        timed('geben', 'präteritum', 'ich', 3000, { verb_type: 'strong' }),
+        timed('machen', 'präsens', 'er', 500, { isCorrect: false }),
+        timed('machen', 'präsens', 'wir', 9000, { timedOut: true }),
+        timed('machen', 'präsens', 'ihr', 9000, { questionType: 'table' }),
+        timed('machen', 'präsens', 'sie', 9000, { answeredAt: undefined }),
+      ]);
+
+      expect(stats.timedAnswers).toBe(3);
+      expect(stats.averageResponseMs).toBe(3000);
+      expect(stats.averageFirstInputMs).toBe(1000);
+      expect(stats.byTense).toEqual({
+        präsens: { timedAnswers: 2, averageResponseMs: 3000 },
+        präteritum: { timedAnswers: 1, averageResponseMs: 3000 },
+      });
+      expect(stats.byVerbType['strong'].averageResponseMs).toBe(3000);
+    });
+
+    it('finds correct answers far slower than usual for their type', () => {
+      const stats = fluency([
+        timed('machen', 'präsens', 'ich', 2000),
+        timed('geben', 'präsens', 'du', 2000),
+        timed('gehen', 'präsens', 'er', 2000),
+        timed('arbeiten', 'präteritum', 'wir', 6000),
+        // Options are slower to read; only compared with each other
+        timed('machen', 'perfekt', 'ich', 6000, {
+          questionType: 'multiple-choice',
+        }),
+      ]);
+
+      expect(stats.slowCorrect).toEqual([
+        {
+          verb: 'arbeiten',
+          tense: 'präteritum',
+          person: 'wir',
+          correctAnswers: 1,
+          averageResponseMs: 6000,
+        },
+      ]);
+    });
+  });
+});
@@ -1,13 +1,35 @@
 import { Injectable } from '@angular/core';
 import { StorageService } from '../../../core/services/storage.service';
-import { TestResult } from '../../../core/models';
-import { HistoryFilters, Statistics } from '../models';
+import {
+  AUXILIARY_TENSE,
+  Answer,
+  DRILL_TENSES,
+  IMPERATIVE_TENSE,
+  QuizTimeLimit,
+  TestConfig,
+  TestResult,
+} from '../../../core/models';
+import { HistoryFilters, Statistics, WeakSpotProfile } from '../models';
+import { ReviewSchedulerService } from '../../quiz/services/review-scheduler.service';
+
+// A correct answer is slow when it takes this many times the usual
+// (median) time for its question type
+const SLOW_ANSWER_FACTOR = 1.5;
+
+interface TimedAnswer {
+  answer: Answer;
+  responseMs: number;
+  firstInputMs: number | null;
+}
 
 @Injectable({
   providedIn: 'root',
 })
 export class HistoryService {
-  constructor(private storageService: StorageService) {}
+  constructor(
+    private storageService: StorageService,
+    private reviewScheduler: ReviewSchedulerService
+  ) {}
 
   // ==================== BASIC RETRIEVAL ====================
 
@@ -61,6 +83,16 @@ export class HistoryService {
   filterHistory(filters: HistoryFilters): TestResult[] {
     let results = this.storageService.getTestResults();
 
+    // Survival runs have no fixed length, so they don't mix with quizzes
+    results = filters.testType
+      ? results.filter((r) => r.test_type === filters.testType)
+      : results.filter((r) => r.test_type !== 'survival');
+
+    // Neither do speed runs, which only meet runs with the same limit
+    results = results.filter((r) =>
+      this.isSameTimeLimit(r.test_configuration?.timeLimit, filters.timeLimit)
+    );
+
     // Filter by date range
     if (filters.dateFrom) {
       const fromTime = new Date(filters.dateFrom).getTime();
@@ -127,9 +159,10 @@ export class HistoryService {
 
   /**
    * Calculate comprehensive statistics from history
+   * Untimed quizzes only, unless the filters ask for a time limit
    */
   getStatistics(filters?: HistoryFilters): Statistics {
-    const results = filters ? this.filterHistory(filters) : this.getHistory();
+    const results = this.filterHistory(filters || {});
 
     if (results.length === 0) {
       return this.getEmptyStatistics();
@@ -161,6 +194,16 @@ export class HistoryService {
     const averageDuration =
       durations.length > 0 ? totalDuration / durations.length : 0;
 
+    // Correct answers that needed a lenient spelling rule
+    const lenientCorrect = results.reduce(
+      (sum, r) =>
+        sum +
+        (r.answers as Array<{ acceptedLeniently?: boolean }>).filter(
+          (a) => a.acceptedLeniently
+        ).length,
+      0
+    );
+
     // Breakdown by tense
     const byTense = this.calculateBreakdownByTense(results);
 
@@ -173,6 +216,21 @@ export class HistoryService {
     // Breakdown by difficulty
     const byDifficulty = this.calculateBreakdownByDifficulty(results);
 
+    // Imperative answers, reported apart from the tenses
+    const imperative = this.calculateImperativeBreakdown(results);
+
+    // Principal parts, graded per part (participle accuracy)
+    const principalParts = this.calculatePrincipalPartsBreakdown(results);
+
+    // haben/sein drills
+    const auxiliary = this.calculateAuxiliaryBreakdown(results);
+
+    // Breakdown by error category
+    const byErrorCategory = this.calculateBreakdownByErrorCategory(results);
+
+    // Response times and correct but slow items
+    const fluency = this.calculateFluency(results);
+
     // Performance trend
     const trend = this.calculateTrend(results);
 
@@ -188,14 +246,70 @@ export class HistoryService {
       worstPercentage: Math.round(worstPercentage * 100) / 100,
       totalDuration,
       averageDuration: Math.round(averageDuration),
+      lenientCorrect,
       byTense,
       byVerbType,
       byPerson,
       byDifficulty,
+      imperative,
+      principalParts,
+      auxiliary,
+      byErrorCategory,
+      fluency,
       trend,
     };
   }
 
+  /**
+   * Get accuracy per verb, tense and person across all conjugation quizzes
+   * Lowest percentages are the user's weak spots
+   */
+  getWeakSpotProfile(): WeakSpotProfile {
+    const results = this.getConjugationResults();
+
+    const totalAnswers = results.reduce((sum, r) => sum + r.answers.length, 0);
+
+    return {
+      totalAnswers,
+      byVerb: this.calculateBreakdownByVerb(results),
+      byTense: this.calculateBreakdownByTense(results),
+      byPerson: this.calculateBreakdownByPerson(results),
+    };
+  }
+
+  /**
+   * Results a score can fairly be compared with: the same quiz type
+   * and the same time limit, so speed runs only meet other speed runs
+   */
+  getComparableResults(result: TestResult): TestResult[] {
+    return this.filterHistory({
+      testType: result.test_type,
+      timeLimit: result.test_configuration.timeLimit || null,
+    });
+  }
+
+  /**
+   * Earlier survival runs with the same configuration, and the best
+   * score among them (all correct answers of a run, not its longest
+   * streak, since a run allows several mistakes)
+   */
+  getSurvivalRecord(result: TestResult): {
+    runs: number;
+    bestScore: number | null;
+  } {
+    const key = this.getSurvivalKey(result);
+    const runs = this.getComparableResults(result).filter(
+      (r) =>
+        new Date(r.test_date).getTime() <
+          new Date(result.test_date).getTime() && this.getSurvivalKey(r) === key
+    );
+
+    return {
+      runs: runs.length,
+      bestScore: runs.length > 0 ? Math.max(...runs.map((r) => r.score)) : null,
+    };
+  }
+
   // ==================== DATA MANAGEMENT ====================
 
   /**
@@ -229,13 +343,56 @@ export class HistoryService {
 
   /**
    * Import history from JSON string
+   * Rebuilds the review schedule if the file doesn't include one
    */
   importHistory(jsonString: string): void {
     this.storageService.importFromJSON(jsonString);
+
+    if (!this.storageService.hasReviewSchedule()) {
+      this.reviewScheduler.rebuildFromResults(
+        this.storageService.getTestResults()
+      );
+    }
   }
 
   // ==================== HELPER METHODS ====================
 
+  /**
+   * Identify a survival configuration: what is asked and how many
+   * mistakes are allowed (not the seed or sampling)
+   */
+  private getSurvivalKey(result: TestResult): string {
+    const config: Partial<TestConfig> =
+      result.test_configuration.quizConfig || result.test_configuration;
+    const sorted = (values?: Array<string | number>) =>
+      [...(values || [])].sort().join(',');
+
+    return [
+      sorted(config.tenses),
+      sorted(config.verbTypes),
+      sorted(config.persons),
+      sorted(config.difficultyLevels),
+      sorted(config.specificVerbs),
+      sorted(config.voices),
+      config.questionType || 'typed',
+      config.answerStrictness || 'strict',
+      config.maxMistakes,
+    ].join('|');
+  }
+
+  /**
+   * Compare speed-run limits; missing and null both mean untimed
+   */
+  private isSameTimeLimit(
+    a?: QuizTimeLimit | null,
+    b?: QuizTimeLimit | null
+  ): boolean {
+    return (
+      a?.perQuestionSeconds === b?.perQuestionSeconds &&
+      a?.totalSeconds === b?.totalSeconds
+    );
+  }
+
   private getEmptyStatistics(): Statistics {
     return {
       totalTests: 0,
@@ -249,10 +406,39 @@ export class HistoryService {
       worstPercentage: 0,
       totalDuration: 0,
       averageDuration: 0,
+      lenientCorrect: 0,
       byTense: {},
       byVerbType: {},
       byPerson: {},
       byDifficulty: {},
+      imperative: {
+        totalQuestions: 0,
+        correctAnswers: 0,
+        percentage: 0,
+        byPerson: {},
+      },
+      principalParts: {
+        totalQuestions: 0,
+        correctAnswers: 0,
+        percentage: 0,
+        byPart: {},
+      },
+      auxiliary: {
+        totalQuestions: 0,
+        correctAnswers: 0,
+        percentage: 0,
+        byAuxiliary: {},
+      },
+      byErrorCategory: {},
+      fluency: {
+        timedAnswers: 0,
+        averageResponseMs: 0,
+        averageFirstInputMs: 0,
+        byTense: {},
+        byPerson: {},
+        byVerbType: {},
+        slowCorrect: [],
+      },
       trend: {
         improving: false,
         recentAverage: 0,
@@ -275,7 +461,7 @@ export class HistoryService {
 
       result.answers.forEach((answer) => {
         // Type guard: check if this is a conjugation answer
-        if (!('tense' in answer)) {
+        if (!('tense' in answer) || DRILL_TENSES.includes(answer.tense)) {
           return;
         }
 
@@ -387,7 +573,7 @@ export class HistoryService {
 
       result.answers.forEach((answer) => {
         // Type guard: check if this is a conjugation answer
-        if (!('person' in answer)) {
+        if (!('person' in answer) || DRILL_TENSES.includes(answer.tense)) {
           return;
         }
 
@@ -419,6 +605,202 @@ export class HistoryService {
     return breakdown;
   }
 
+  private calculateImperativeBreakdown(
+    results: TestResult[]
+  ): Statistics['imperative'] {
+    const breakdown: Statistics['imperative'] = {
+      totalQuestions: 0,
+      correctAnswers: 0,
+      percentage: 0,
+      byPerson: {},
+    };
+
+    results.forEach((result) => {
+      // Only process conjugation quiz results
+      if (result.test_type !== 'conjugation') {
+        return;
+      }
+
+      result.answers.forEach((answer) => {
+        if (!('tense' in answer) || answer.tense !== IMPERATIVE_TENSE) {
+          return;
+        }
+
+        const person = answer.person;
+        if (!breakdown.byPerson[person]) {
+          breakdown.byPerson[person] = {
+            totalQuestions: 0,
+            correctAnswers: 0,
+            percentage: 0,
+          };
+        }
+        breakdown.totalQuestions++;
+        breakdown.byPerson[person].totalQuestions++;
+        if (answer.isCorrect) {
+          breakdown.correctAnswers++;
+          breakdown.byPerson[person].correctAnswers++;
+        }
+      });
+    });
+
+    // Calculate percentages
+    [breakdown, ...Object.values(breakdown.byPerson)].forEach((data) => {
+      data.percentage =
+        data.totalQuestions > 0
+          ? Math.round((data.correctAnswers / data.totalQuestions) * 10000) /
+            100
+          : 0;
+    });
+
+    return breakdown;
+  }
+
+  private calculatePrincipalPartsBreakdown(
+    results: TestResult[]
+  ): Statistics['principalParts'] {
+    const breakdown: Statistics['principalParts'] = {
+      totalQuestions: 0,
+      correctAnswers: 0,
+      percentage: 0,
+      byPart: {},
+    };
+
+    results.forEach((result) => {
+      // Only process conjugation quiz results
+      if (result.test_type !== 'conjugation') {
+        return;
+      }
+
+      result.answers.forEach((answer) => {
+        if (!('principalPart' in answer) || !answer.principalPart) {
+          return;
+        }
+
+        const part = answer.principalPart;
+        if (!breakdown.byPart[part]) {
+          breakdown.byPart[part] = {
+            totalQuestions: 0,
+            correctAnswers: 0,
+            percentage: 0,
+          };
+        }
+        breakdown.totalQuestions++;
+        breakdown.byPart[part].totalQuestions++;
+        if (answer.isCorrect) {
+          breakdown.correctAnswers++;
+          breakdown.byPart[part].correctAnswers++;
+        }
+      });
+    });
+
+    // Calculate percentages
+    [breakdown, ...Object.values(breakdown.byPart)].forEach((data) => {
+      data.percentage =
+        data.totalQuestions > 0
+          ? Math.round((data.correctAnswers / data.totalQuestions) * 10000) /
+            100
+          : 0;
+    });
+
+    return breakdown;
+  }
+
+  private calculateAuxiliaryBreakdown(
+    results: TestResult[]
+  ): Statistics['auxiliary'] {
+    const breakdown: Statistics['auxiliary'] = {
+      totalQuestions: 0,
+      correctAnswers: 0,
+      percentage: 0,
+      byAuxiliary: {},
+    };
+
+    results.forEach((result) => {
+      // Only process conjugation quiz results
+      if (result.test_type !== 'conjugation') {
+        return;
+      }
+
+      result.answers.forEach((answer) => {
+        if (!('tense' in answer) || answer.tense !== AUXILIARY_TENSE) {
+          return;
+        }
+
+        // Grouped by the right answer, to show which one is missed
+        const auxiliary = answer.correctAnswer;
+        if (!breakdown.byAuxiliary[auxiliary]) {
+          breakdown.byAuxiliary[auxiliary] = {
+            totalQuestions: 0,
+            correctAnswers: 0,
+            percentage: 0,
+          };
+        }
+        breakdown.totalQuestions++;
+        breakdown.byAuxiliary[auxiliary].totalQuestions++;
+        if (answer.isCorrect) {
+          breakdown.correctAnswers++;
+          breakdown.byAuxiliary[auxiliary].correctAnswers++;
+        }
+      });
+    });
+
+    // Calculate percentages
+    [breakdown, ...Object.values(breakdown.byAuxiliary)].forEach((data) => {
+      data.percentage =
+        data.totalQuestions > 0
+          ? Math.round((data.correctAnswers / data.totalQuestions) * 10000) /
+            100
+          : 0;
+    });
+
+    return breakdown;
+  }
+
+  private calculateBreakdownByVerb(
+    results: TestResult[]
+  ): WeakSpotProfile['byVerb'] {
+    const breakdown: WeakSpotProfile['byVerb'] = {};
+
+    results.forEach((result) => {
+      // Only process conjugation quiz results
+      if (result.test_type !== 'conjugation') {
+        return;
+      }
+
+      result.answers.forEach((answer) => {
+        // Type guard: check if this is a conjugation answer
+        if (!('verb' in answer) || DRILL_TENSES.includes(answer.tense)) {
+          return;
+        }
+
+        const verb = answer.verb;
+        if (!breakdown[verb]) {
+          breakdown[verb] = {
+            totalQuestions: 0,
+            correctAnswers: 0,
+            percentage: 0,
+          };
+        }
+        breakdown[verb].totalQuestions++;
+        if (answer.isCorrect) {
+          breakdown[verb].correctAnswers++;
+        }
+      });
+    });
+
+    // Calculate percentages
+    Object.keys(breakdown).forEach((verb) => {
+      const data = breakdown[verb];
+      data.percentage =
+        data.totalQuestions > 0
+          ? Math.round((data.correctAnswers / data.totalQuestions) * 10000) /
+            100
+          : 0;
+    });
+
+    return breakdown;
+  }
+
   private calculateBreakdownByDifficulty(
     results: TestResult[]
   ): Statistics['byDifficulty'] {
@@ -470,6 +852,166 @@ export class HistoryService {
     return breakdown;
   }
 
+  private calculateBreakdownByErrorCategory(
+    results: TestResult[]
+  ): Statistics['byErrorCategory'] {
+    const breakdown: Statistics['byErrorCategory'] = {};
+
+    results.forEach((result) => {
+      // Only conjugation answers are classified
+      if (result.test_type === 'vocabulary') {
+        return;
+      }
+
+      result.answers.forEach((answer) => {
+        if (!('errorCategory' in answer) || !answer.errorCategory) {
+          return;
+        }
+
+        breakdown[answer.errorCategory] =
+          (breakdown[answer.errorCategory] || 0) + 1;
+      });
+    });
+
+    return breakdown;
+  }
+
+  /**
+   * Average response times of correct answers, and the items answered
+   * correctly but slowly compared with the usual time for their question
+   * type. Unanswered, timed-out and multi-field (table, principal parts)
+   * answers are left out, as their time isn't one recall
+   */
+  private calculateFluency(results: TestResult[]): Statistics['fluency'] {
+    const timed: TimedAnswer[] = [];
+
+    results.forEach((result) => {
+      // Only conjugation answers are timed
+      if (result.test_type === 'vocabulary') {
+        return;
+      }
+
+      (result.answers as Answer[]).forEach((answer) => {
+        if (
+          !answer.isCorrect ||
+          !answer.shownAt ||
+          !answer.answeredAt ||
+          answer.timedOut ||
+          answer.questionType === 'table' ||
+          answer.principalPart
+        ) {
+          return;
+        }
+
+        const shownAt = new Date(answer.shownAt).getTime();
+        timed.push({
+          answer,
+          responseMs: new Date(answer.answeredAt).getTime() - shownAt,
+          firstInputMs: answer.firstInputAt
+            ? new Date(answer.firstInputAt).getTime() - shownAt
+            : null,
+        });
+      });
+    });
+
+    const firstInputs = timed
+      .map((t) => t.firstInputMs)
+      .filter((ms): ms is number => ms !== null);
+    const drill = (t: TimedAnswer) => DRILL_TENSES.includes(t.answer.tense);
+
+    return {
+      timedAnswers: timed.length,
+      averageResponseMs: this.average(timed.map((t) => t.responseMs)),
+      averageFirstInputMs: this.average(firstInputs),
+      byTense: this.averageResponseTimes(
+        timed.filter((t) => !drill(t)),
+        (answer) => answer.tense
+      ),
+      byPerson: this.averageResponseTimes(
+        timed.filter((t) => !drill(t)),
+        (answer) => answer.person
+      ),
+      byVerbType: this.averageResponseTimes(
+        timed,
+        (answer) => answer.verb_type
+      ),
+      slowCorrect: this.findSlowCorrect(timed),
+    };
+  }
+
+  private averageResponseTimes(
+    timed: TimedAnswer[],
+    keyOf: (answer: Answer) => string
+  ): Statistics['fluency']['byTense'] {
+    const groups = new Map<string, number[]>();
+
+    timed.forEach((t) => {
+      const key = keyOf(t.answer);
+      groups.set(key, [...(groups.get(key) || []), t.responseMs]);
+    });
+
+    const breakdown: Statistics['fluency']['byTense'] = {};
+    groups.forEach((times, key) => {
+      breakdown[key] = {
+        timedAnswers: times.length,
+        averageResponseMs: this.average(times),
+      };
+    });
+
+    return breakdown;
+  }
+
+  /**
+   * Items (verb, tense, person) whose correct answers take on average
+   * SLOW_ANSWER_FACTOR times the median for their question type or more
+   */
+  private findSlowCorrect(
+    timed: TimedAnswer[]
+  ): Statistics['fluency']['slowCorrect'] {
+    const typeOf = (answer: Answer) => answer.questionType || 'typed';
+
+    const medians = new Map<string, number>();
+    new Set(timed.map((t) => typeOf(t.answer))).forEach((type) => {
+      const times = timed
+        .filter((t) => typeOf(t.answer) === type)
+        .map((t) => t.responseMs)
+        .sort((a, b) => a - b);
+      medians.set(type, times[Math.floor(times.length / 2)]);
+    });
+
+    const items = new Map<string, { timed: TimedAnswer[]; ratios: number[] }>();
+    timed.forEach((t) => {
+      const { verb, tense, person } = t.answer;
+      const key = `${verb}|${tense}|${person}`;
+      const item = items.get(key) || { timed: [], ratios: [] };
+
+      item.timed.push(t);
+      item.ratios.push(t.responseMs / (medians.get(typeOf(t.answer)) || 1));
+      items.set(key, item);
+    });
+
+    return Array.from(items.values())
+      .filter(
+        (item) =>
+          item.ratios.reduce((sum, r) => sum + r, 0) / item.ratios.length >=
+          SLOW_ANSWER_FACTOR
+      )
+      .map((item) => ({
+        verb: item.timed[0].answer.verb,
+        tense: item.timed[0].answer.tense,
+        person: item.timed[0].answer.person,
+        correctAnswers: item.timed.length,
+        averageResponseMs: this.average(item.timed.map((t) => t.responseMs)),
+      }))
+      .sort((a, b) => b.averageResponseMs - a.averageResponseMs);
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0
+      ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+      : 0;
+  }
+
   private calculateTrend(results: TestResult[]): Statistics['trend'] {
     if (results.length < 2) {
       return {
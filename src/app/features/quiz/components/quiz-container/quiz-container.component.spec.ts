@@ -0,0 +1,97 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Navigation, Router, provideRouter } from '@angular/router';
+import { DEFAULT_TEST_CONFIG, TestConfig } from '../../../../core/models';
+import { CacheService } from '../../../../core/services/cache.service';
+import { provideVerbs } from '../../../../testing/verb.fixtures';
+import { QuizSession } from '../../models';
+import { QuizService } from '../../services/quiz.service';
+import { QuizSessionService } from '../../services/quiz-session.service';
+import { QuizContainerComponent } from './quiz-container.component';
+
+describe('QuizContainerComponent', () => {
+  const config: TestConfig = {
+    ...DEFAULT_TEST_CONFIG,
+    tenses: ['präsens'],
+    persons: ['ich', 'du'],
+    verbTypes: ['weak', 'strong'],
+    difficultyLevels: [1],
+    questionCount: 3,
+    seed: 21,
+  };
+
+  let sessionService: QuizSessionService;
+  let session: QuizSession;
+
+  // Started ten minutes ago, with two of them spent in the quiz
+  const saveSession = () => {
+    session = {
+      id: 'session-1',
+      config,
+      fixedLength: true,
+      questions: TestBed.inject(QuizService).generateQuestions(config),
+      answers: [],
+      currentQuestionIndex: 1,
+      startTime: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+      elapsedSeconds: 120,
+      questionSeconds: 15,
+    };
+    sessionService.saveSession(session);
+  };
+
+  // Open the quiz page the way the Resume button does
+  const resume = () => {
+    saveSession();
+    spyOn(TestBed.inject(Router), 'getCurrentNavigation').and.returnValue({
+      extras: { state: { sessionId: session.id } },
+    } as unknown as Navigation);
+
+    const fixture = TestBed.createComponent(QuizContainerComponent);
+    fixture.componentInstance.ngOnInit();
+    return fixture;
+  };
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [provideVerbs(), provideRouter([])],
+    });
+    TestBed.overrideComponent(QuizContainerComponent, {
+      set: { template: '' },
+    });
+    await TestBed.inject(CacheService).initializeCache();
+
+    sessionService = TestBed.inject(QuizSessionService);
+  });
+
+  afterEach(() => sessionService.clearSession());
+
+  it('resumes with the original start time and time spent', fakeAsync(() => {
+    const fixture = resume();
+    const quiz = fixture.componentInstance;
+
+    expect(quiz.startTime?.toISOString()).toBe(session.startTime);
+    expect(quiz.elapsedSeconds).toBe(120);
+    expect(quiz.currentQuestion?.id).toBe(session.questions[1].id);
+
+    tick(5000);
+    expect(quiz.elapsedSeconds).toBe(125);
+
+    fixture.destroy();
+  }));
+
+  it('saves the time spent, not the time away, when leaving', fakeAsync(() => {
+    const fixture = resume();
+    spyOn(window, 'confirm').and.returnValue(false);
+
+    tick(30000);
+    fixture.componentInstance.currentAnswer = 'mache';
+
+    expect(fixture.componentInstance.canExitQuiz()).toBeFalse();
+    expect(sessionService.getSession()?.startTime).toBe(session.startTime);
+    expect(sessionService.getSession()?.elapsedSeconds).toBe(150);
+    expect(sessionService.getSession()?.answers).toEqual([
+      [session.questions[1].id, 'mache'],
+    ]);
+
+    fixture.destroy();
+  }));
+});
@@ -1,13 +1,23 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { Component, HostListener, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule, Location } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
 import { ConfigService } from '../../../configuration/services/config.service';
 import { QuizService } from '../../services/quiz.service';
+import { QuizSessionService } from '../../services/quiz-session.service';
 import { ResultsService } from '../../../results/services/results.service';
-import { Question } from '../../models/question.model';
+import { RandomService } from '../../../../core/services/random.service';
+import { MAX_HINT_LEVEL } from '../../services/hint.service';
+import {
+  ChoiceOption,
+  Question,
+  QuestionProvider,
+  TableCell,
+} from '../../models/question.model';
+import { QuizSession } from '../../models/quiz-session.model';
 import { TestConfig } from '../../../../core/models';
+import { QuizExitAware } from '../../../../core/guards/quiz-exit.guard';
 
 @Component({
   selector: 'app-quiz-container',
@@ -16,10 +26,13 @@ import { TestConfig } from '../../../../core/models';
   templateUrl: './quiz-container.component.html',
   styleUrls: ['./quiz-container.component.scss'],
 })
-export class QuizContainerComponent implements OnInit, OnDestroy {
+export class QuizContainerComponent
+  implements OnInit, OnDestroy, QuizExitAware
+{
   private destroy$ = new Subject<void>();
 
-  // Quiz state
+  // Quiz state (questions are pulled from the provider as they're reached)
+  private provider: QuestionProvider | null = null;
   questions: Question[] = [];
   currentQuestionIndex = 0;
   userAnswers = new Map<string, string>();
@@ -29,13 +42,40 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
   startTime: Date | null = null;
   elapsedSeconds = 0;
   private timerInterval: any;
+  private awayMs = 0; // Time between leaving and resuming a saved quiz
+  private leftAt = new Map<string, number>(); // Unanswered questions left (quiz clock)
+
+  // Speed-run countdowns (null when the limit isn't set)
+  questionSecondsLeft: number | null = null;
+  totalSecondsLeft: number | null = null;
+  private questionStartTime = 0;
 
   // UI state
   showHint = false;
   hintLevel = 1;
+  readonly maxHintLevel = MAX_HINT_LEVEL;
   isSubmitting = false;
   config: TestConfig | null = null;
 
+  // Config the questions were generated from, with its seed; set from
+  // router state when retaking an exact quiz from the results page
+  quizConfig: TestConfig | null = null;
+
+  // Saved session of this quiz; set from router state when resuming
+  private sessionId: string | null = null;
+  private exiting = false;
+
+  // Reverse identification fields
+  readingVerb = '';
+  readingTense = '';
+  readingPerson = '';
+  readingTenses: string[] = [];
+  readingPersons = ['ich', 'du', 'er', 'wir', 'ihr', 'sie'];
+
+  // Table question cells (person -> answer / check result)
+  tableAnswers: Record<string, string> = {};
+  tableResults: Record<string, boolean> = {};
+
   // Validation
   answerError = '';
   showValidation = false;
@@ -44,8 +84,15 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     private configService: ConfigService,
     private quizService: QuizService,
     private resultsService: ResultsService,
+    private random: RandomService,
+    private sessionService: QuizSessionService,
+    private location: Location,
     private router: Router
-  ) {}
+  ) {
+    const state = this.router.getCurrentNavigation()?.extras.state;
+    this.quizConfig = (state?.['config'] as TestConfig) || null;
+    this.sessionId = (state?.['sessionId'] as string) || null;
+  }
 
   ngOnInit(): void {
     // Get current configuration
@@ -72,14 +119,28 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
   // ==================== INITIALIZATION ====================
 
   initializeQuiz(): void {
-    const config = this.configService.getConfig();
+    // Resume the saved quiz of this page (after a reload, or from the
+    // Resume button on the setup page)
+    const session = this.sessionService.getSession();
+    if (session && session.id === this.sessionId) {
+      this.resumeSession(session);
+      return;
+    }
+
+    // Retakes reuse the stored config as is; new quizzes get a fresh seed
+    const baseConfig = this.quizConfig || this.configService.getConfig();
+    const config: TestConfig = {
+      ...baseConfig,
+      seed: baseConfig.seed ?? this.random.createSeed(),
+    };
+    this.quizConfig = config;
 
     // Validate configuration
     const validation = this.quizService.validateConfiguration(config);
     if (!validation.valid) {
       console.error('Invalid configuration:', validation.errors);
       alert(
-        'Invalid quiz configuration. Please go back and adjust your settings.'
+        `Invalid quiz configuration:\n${validation.errors.join('\n')}\n\nPlease go back and adjust your settings.`
       );
       this.router.navigate(['/config']);
       return;
@@ -87,9 +148,10 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
 
     // Generate questions
     try {
-      this.questions = this.quizService.generateQuestions(config);
+      this.provider = this.quizService.createQuestionProvider(config);
+      this.questions = [];
 
-      if (this.questions.length === 0) {
+      if (!this.ensureQuestion(0)) {
         alert(
           'No questions could be generated. Please adjust your configuration.'
         );
@@ -97,12 +159,17 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
         return;
       }
 
+      this.readingTenses = this.quizService.getReadingTenses();
+
       // Start timer
       this.startTime = new Date();
+      this.questionStartTime = Date.now();
+      this.markShown();
       this.startTimer();
+      this.startSession();
 
       console.log(
-        `✅ Quiz initialized: ${this.questions.length} questions generated`
+        `✅ Quiz initialized: ${this.totalQuestions} questions${this.isAdaptive ? ' (adaptive)' : ''}`
       );
     } catch (error) {
       console.error('Error generating questions:', error);
@@ -111,14 +178,175 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Restore a saved quiz with its questions, answers and the time spent
+   * so far; time away from the quiz doesn't count
+   */
+  private resumeSession(session: QuizSession): void {
+    this.quizConfig = session.config;
+    this.userAnswers = new Map(session.answers);
+    this.provider = session.fixedLength
+      ? this.quizService.createFixedProvider(session.questions)
+      : this.quizService.createQuestionProvider(session.config);
+
+    // Replay the answers, so adaptive and survival providers (seeded)
+    // pick up where they left off
+    session.questions.forEach((_, i) => {
+      const last = session.questions[i - 1];
+      if (last) {
+        this.provider!.recordAnswer(last, this.userAnswers.get(last.id) || '');
+      }
+      this.provider!.next();
+    });
+
+    this.questions = session.questions;
+    this.currentQuestionIndex = session.currentQuestionIndex;
+    this.leftAt = new Map(session.leftAt || []);
+    this.readingTenses = this.quizService.getReadingTenses();
+
+    const now = Date.now();
+    this.startTime = new Date(session.startTime);
+    this.awayMs =
+      now - this.startTime.getTime() - session.elapsedSeconds * 1000;
+    this.questionStartTime = now - session.questionSeconds * 1000;
+
+    this.loadAnswer();
+    this.startTimer();
+
+    console.log(`✅ Quiz resumed at question ${this.currentQuestionIndex + 1}`);
+  }
+
+  /**
+   * Tie a new quiz to this history entry, so a reload resumes it
+   */
+  private startSession(): void {
+    this.sessionId = crypto.randomUUID();
+    this.location.replaceState(this.location.path(), '', {
+      ...(this.location.getState() as object),
+      sessionId: this.sessionId,
+    });
+    this.saveSession();
+  }
+
+  /**
+   * Save the quiz so far; called on every answer and question change
+   */
+  private saveSession(): void {
+    if (
+      !this.sessionId ||
+      !this.startTime ||
+      !this.quizConfig ||
+      this.isSubmitting
+    ) {
+      return;
+    }
+
+    // Fixed quizzes keep all their questions, so the resumed quiz is the same
+    if (this.hasFixedLength) {
+      this.ensureQuestion(this.totalQuestions - 1);
+    }
+
+    this.sessionService.saveSession({
+      id: this.sessionId,
+      config: this.quizConfig,
+      fixedLength: this.hasFixedLength,
+      questions: this.questions,
+      answers: Array.from(this.userAnswers.entries()),
+      leftAt: Array.from(this.leftAt.entries()),
+      currentQuestionIndex: this.currentQuestionIndex,
+      startTime: this.startTime.toISOString(),
+      elapsedSeconds: this.getElapsedSeconds(),
+      questionSeconds: Math.floor((Date.now() - this.questionStartTime) / 1000),
+    });
+  }
+
+  @HostListener('window:beforeunload')
+  saveBeforeUnload(): void {
+    this.saveCurrentAnswer(false);
+  }
+
+  /**
+   * Ask before leaving an unfinished quiz (canDeactivate guard)
+   */
+  canExitQuiz(): boolean {
+    if (!this.startTime || this.isSubmitting || this.exiting) {
+      return true;
+    }
+
+    this.saveCurrentAnswer(false);
+    return window.confirm(
+      'Leave this quiz? Your answers are saved, and you can resume it from the quiz setup page.'
+    );
+  }
+
   startTimer(): void {
     this.timerInterval = setInterval(() => {
       if (this.startTime) {
-        this.elapsedSeconds = Math.floor(
-          (Date.now() - this.startTime.getTime()) / 1000
-        );
+        this.elapsedSeconds = this.getElapsedSeconds();
+        this.enforceTimeLimit();
       }
     }, 1000);
+    this.elapsedSeconds = this.getElapsedSeconds();
+    this.enforceTimeLimit();
+  }
+
+  private getElapsedSeconds(): number {
+    return this.startTime
+      ? Math.floor((Date.now() - this.startTime.getTime() - this.awayMs) / 1000)
+      : 0;
+  }
+
+  /**
+   * Count down the speed-run limits: an expired question moves on
+   * (unanswered counts as wrong), an expired budget ends the quiz
+   */
+  private enforceTimeLimit(): void {
+    const limit = this.quizConfig?.timeLimit;
+    if (!limit || !this.startTime || this.isSubmitting) return;
+
+    const now = Date.now();
+
+    if (limit.totalSeconds) {
+      this.totalSecondsLeft = Math.max(
+        0,
+        limit.totalSeconds - this.getElapsedSeconds()
+      );
+
+      if (this.totalSecondsLeft === 0) {
+        this.saveCurrentAnswer();
+        if (this.hasFixedLength) {
+          this.ensureQuestion(this.totalQuestions - 1);
+        }
+        this.questions.forEach((_, i) => this.markTimedOut(i));
+        this.submitQuiz();
+        return;
+      }
+    }
+
+    if (limit.perQuestionSeconds) {
+      this.questionSecondsLeft = Math.max(
+        0,
+        limit.perQuestionSeconds -
+          Math.floor((now - this.questionStartTime) / 1000)
+      );
+
+      if (this.questionSecondsLeft === 0) {
+        this.saveCurrentAnswer();
+        this.markTimedOut(this.currentQuestionIndex);
+
+        if (this.isLastQuestion) {
+          this.submitQuiz();
+        } else {
+          this.nextQuestion();
+        }
+      }
+    }
+  }
+
+  private markTimedOut(index: number): void {
+    if (!this.isQuestionAnswered(index)) {
+      this.questions[index].timedOut = true;
+    }
   }
 
   // ==================== NAVIGATION ====================
@@ -132,81 +360,379 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
   }
 
   get isLastQuestion(): boolean {
-    return this.currentQuestionIndex === this.questions.length - 1;
+    return this.currentQuestionIndex >= this.totalQuestions - 1;
+  }
+
+  get totalQuestions(): number {
+    return this.provider?.total ?? this.questions.length;
+  }
+
+  get isAdaptive(): boolean {
+    return this.provider?.adaptive ?? false;
+  }
+
+  get isSurvival(): boolean {
+    return this.provider?.mistakesLeft !== undefined;
+  }
+
+  get mistakesLeft(): number {
+    return this.provider?.mistakesLeft ?? 0;
+  }
+
+  /**
+   * Fixed quizzes know all their questions up front; adaptive and
+   * survival quizzes only have the ones asked so far
+   */
+  get hasFixedLength(): boolean {
+    return !this.isAdaptive && !this.isSurvival;
+  }
+
+  /**
+   * Adaptive quizzes and per-question countdowns are answered in order:
+   * earlier answers decide the next question, or each question has its
+   * own clock, so there is no going back or jumping ahead
+   */
+  get isSequential(): boolean {
+    return (
+      !this.hasFixedLength || !!this.quizConfig?.timeLimit?.perQuestionSeconds
+    );
+  }
+
+  /**
+   * Speed and survival runs grade the answer as given: no checking,
+   * explanation and retry loop, and no hints, before moving on
+   */
+  get allowsChecking(): boolean {
+    return !this.quizConfig?.timeLimit && !this.isSurvival;
+  }
+
+  get questionSlots(): number[] {
+    return Array.from({ length: this.totalQuestions }, (_, i) => i);
   }
 
   get progress(): number {
-    return ((this.currentQuestionIndex + 1) / this.questions.length) * 100;
+    return ((this.currentQuestionIndex + 1) / this.totalQuestions) * 100;
   }
 
   get questionsAnswered(): number {
-    return this.userAnswers.size;
+    return this.questions.filter((_, i) => this.isQuestionAnswered(i)).length;
   }
 
   get questionsRemaining(): number {
-    return this.questions.length - this.userAnswers.size;
+    return this.totalQuestions - this.questionsAnswered;
   }
 
   nextQuestion(): void {
     if (!this.isLastQuestion) {
       this.saveCurrentAnswer();
+      this.leaveQuestion();
+
+      // The provider may end the quiz early (e.g. survival run lost)
+      if (!this.ensureQuestion(this.currentQuestionIndex + 1)) {
+        if (this.isLastQuestion) {
+          this.submitQuiz();
+        }
+        return;
+      }
       this.currentQuestionIndex++;
+      this.questionStartTime = Date.now();
+      this.markShown();
+      this.enforceTimeLimit();
       this.loadAnswer();
       this.resetHint();
       this.showValidation = false;
+      this.saveSession();
     }
   }
 
   previousQuestion(): void {
-    if (!this.isFirstQuestion) {
+    if (!this.isFirstQuestion && !this.isSequential) {
       this.saveCurrentAnswer();
+      this.leaveQuestion();
       this.currentQuestionIndex--;
+      this.markShown();
       this.loadAnswer();
       this.resetHint();
       this.showValidation = false;
+      this.saveSession();
     }
   }
 
   goToQuestion(index: number): void {
-    if (index >= 0 && index < this.questions.length) {
+    if (index >= 0 && index < this.totalQuestions && !this.isSequential) {
       this.saveCurrentAnswer();
+      if (!this.ensureQuestion(index)) return;
+      this.leaveQuestion();
       this.currentQuestionIndex = index;
+      this.markShown();
       this.loadAnswer();
       this.resetHint();
       this.showValidation = false;
+      this.saveSession();
     }
   }
 
+  /**
+   * Pull questions from the provider up to the given index, reporting
+   * each answer first so adaptive providers can choose the next one
+   * Returns false if the provider has no more questions
+   */
+  private ensureQuestion(index: number): boolean {
+    while (this.provider && this.questions.length <= index) {
+      const last = this.questions[this.questions.length - 1];
+      if (last) {
+        this.provider.recordAnswer(last, this.userAnswers.get(last.id) || '');
+      }
+
+      const question = this.provider.next();
+      if (!question) return false;
+      this.questions.push(question);
+    }
+
+    return index < this.questions.length;
+  }
+
   // ==================== ANSWER MANAGEMENT ====================
 
-  saveCurrentAnswer(): void {
-    if (this.currentQuestion && this.currentAnswer.trim()) {
-      this.userAnswers.set(this.currentQuestion.id, this.currentAnswer.trim());
+  /**
+   * Response timings for fluency statistics: when a question was first
+   * shown, first typed into and answered (first Check, option pick or
+   * move on with an answer), on the quiz clock
+   */
+  private markShown(): void {
+    const question = this.currentQuestion;
+    if (!question) return;
+
+    if (!question.shownAt) {
+      question.shownAt = this.clock();
+    }
+
+    // Time spent on other questions doesn't count for an unanswered one
+    const leftAt = this.leftAt.get(question.id);
+    if (leftAt !== undefined) {
+      const awayMs = this.clock() - leftAt;
+      question.shownAt += awayMs;
+      if (question.firstInputAt) {
+        question.firstInputAt += awayMs;
+      }
+      this.leftAt.delete(question.id);
+    }
+  }
+
+  markFirstInput(): void {
+    if (this.currentQuestion && !this.currentQuestion.firstInputAt) {
+      this.currentQuestion.firstInputAt = this.clock();
+    }
+  }
+
+  private markAnswered(): void {
+    if (
+      this.currentQuestion &&
+      this.currentAnswer.trim() &&
+      !this.currentQuestion.answeredAt
+    ) {
+      this.currentQuestion.answeredAt = this.clock();
+    }
+  }
+
+  private leaveQuestion(): void {
+    if (this.currentQuestion && !this.currentQuestion.answeredAt) {
+      this.leftAt.set(this.currentQuestion.id, this.clock());
+    }
+  }
+
+  /**
+   * Time in the quiz, leaving out time away from a saved quiz
+   */
+  private clock(): number {
+    return Date.now() - this.awayMs;
+  }
+
+  /**
+   * Keep the current answer; unless only saving before leaving the
+   * page, it also counts as answered for the response timings
+   */
+  saveCurrentAnswer(answered = true): void {
+    const answer = this.currentAnswer.trim();
+
+    if (answered) {
+      this.markAnswered();
+    }
+
+    if (this.currentQuestion?.cells) {
+      this.saveTableAnswers(this.currentQuestion);
+    } else if (this.currentQuestion && answer) {
+      this.userAnswers.set(this.currentQuestion.id, answer);
     }
+
+    this.saveSession();
   }
 
   loadAnswer(): void {
     if (this.currentQuestion) {
       this.currentAnswer = this.userAnswers.get(this.currentQuestion.id) || '';
+
+      if (this.currentQuestion.cells) {
+        this.loadTableAnswers(this.currentQuestion);
+      }
+
+      const reading = this.quizService.parseReading(this.currentAnswer);
+      this.readingVerb = reading?.verb || '';
+      this.readingTense = reading?.tense || '';
+      this.readingPerson = reading?.person || '';
     }
   }
 
   isQuestionAnswered(index: number): boolean {
-    return this.userAnswers.has(this.questions[index].id);
+    const question = this.questions[index];
+
+    if (!question) {
+      return false;
+    }
+
+    if (question.cells) {
+      return question.cells.some((cell) =>
+        this.userAnswers.has(
+          this.quizService.getCellAnswerKey(question.id, cell)
+        )
+      );
+    }
+
+    return this.userAnswers.has(question.id);
   }
 
   clearCurrentAnswer(): void {
     this.currentAnswer = '';
+    this.readingVerb = '';
+    this.readingTense = '';
+    this.readingPerson = '';
+    this.tableAnswers = {};
+    this.tableResults = {};
     if (this.currentQuestion) {
       this.userAnswers.delete(this.currentQuestion.id);
+      this.currentQuestion.cells?.forEach((cell) =>
+        this.userAnswers.delete(
+          this.quizService.getCellAnswerKey(this.currentQuestion!.id, cell)
+        )
+      );
+    }
+  }
+
+  cellKey(cell: TableCell): string {
+    return this.quizService.getCellKey(cell);
+  }
+
+  cellLabel(cell: TableCell): string {
+    return this.quizService.getCellLabel(cell);
+  }
+
+  /**
+   * Store each filled table cell under its own key
+   */
+  private saveTableAnswers(question: Question): void {
+    question.cells!.forEach((cell) => {
+      const key = this.quizService.getCellAnswerKey(question.id, cell);
+      const answer = (this.tableAnswers[this.cellKey(cell)] || '').trim();
+
+      if (answer) {
+        this.userAnswers.set(key, answer);
+      } else {
+        this.userAnswers.delete(key);
+      }
+    });
+  }
+
+  private loadTableAnswers(question: Question): void {
+    this.tableAnswers = {};
+    this.tableResults = {};
+
+    question.cells!.forEach((cell) => {
+      this.tableAnswers[this.cellKey(cell)] =
+        this.userAnswers.get(
+          this.quizService.getCellAnswerKey(question.id, cell)
+        ) || '';
+    });
+
+    this.updateTableAnswer();
+  }
+
+  /**
+   * Keep currentAnswer non-empty while any cell is filled, so the
+   * Check button and Enter shortcut work for tables too
+   */
+  updateTableAnswer(): void {
+    this.showValidation = false;
+    this.tableResults = {};
+    this.currentAnswer = Object.values(this.tableAnswers)
+      .map((answer) => answer.trim())
+      .filter((answer) => answer)
+      .join(', ');
+  }
+
+  selectOption(option: ChoiceOption): void {
+    this.markFirstInput();
+    this.currentAnswer = option.text;
+    this.showValidation = false;
+    this.saveCurrentAnswer();
+
+    // haben/sein is rapid-fire: check right away
+    if (
+      this.currentQuestion?.questionType === 'auxiliary' &&
+      this.allowsChecking
+    ) {
+      this.checkAnswer();
     }
   }
 
+  /**
+   * Keyboard shortcuts for haben/sein questions: h, s, Enter for next
+   */
+  @HostListener('document:keydown', ['$event'])
+  handleAuxiliaryShortcut(event: KeyboardEvent): void {
+    if (this.currentQuestion?.questionType !== 'auxiliary') {
+      return;
+    }
+
+    const option = this.currentQuestion.options?.find(
+      (o) => o.text.charAt(0) === event.key.toLowerCase()
+    );
+
+    if (option) {
+      this.selectOption(option);
+    } else if (event.key === 'Enter' && this.currentAnswer) {
+      this.handleKeyPress(event);
+    }
+  }
+
+  isOptionSelected(option: ChoiceOption): boolean {
+    return this.currentAnswer === option.text;
+  }
+
+  /**
+   * Combine the reverse identification fields into one answer
+   */
+  updateReadingAnswer(): void {
+    this.markFirstInput();
+    this.showValidation = false;
+    this.currentAnswer =
+      this.readingVerb.trim() && this.readingTense && this.readingPerson
+        ? this.quizService.formatReading({
+            verb: this.readingVerb.trim(),
+            tense: this.readingTense,
+            person: this.readingPerson,
+          })
+        : '';
+  }
+
   // ==================== HINTS ====================
 
   toggleHint(): void {
+    if (!this.allowsChecking) return;
+
     this.showHint = !this.showHint;
-    if (!this.showHint) {
+    if (this.showHint) {
+      this.recordHintLevel();
+    } else {
       this.hintLevel = 1;
     }
   }
@@ -217,8 +743,9 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
   }
 
   increaseHintLevel(): void {
-    if (this.hintLevel < 3) {
+    if (this.hintLevel < MAX_HINT_LEVEL) {
       this.hintLevel++;
+      this.recordHintLevel();
     }
   }
 
@@ -228,6 +755,19 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Keep the highest level shown on the question; scoring takes the
+   * hint penalty off correct answers per level
+   */
+  private recordHintLevel(): void {
+    if (
+      this.currentQuestion &&
+      this.hintLevel > (this.currentQuestion.hintLevel || 0)
+    ) {
+      this.currentQuestion.hintLevel = this.hintLevel;
+    }
+  }
+
   getHint(): string {
     if (!this.currentQuestion) return '';
     return this.quizService.getHint(this.currentQuestion, this.hintLevel);
@@ -236,7 +776,14 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
   // ==================== VALIDATION ====================
 
   checkAnswer(): void {
-    if (!this.currentQuestion) return;
+    if (!this.currentQuestion || !this.allowsChecking) return;
+
+    this.markAnswered();
+
+    if (this.currentQuestion.cells) {
+      this.checkTableAnswers(this.currentQuestion);
+      return;
+    }
 
     this.showValidation = true;
     const isCorrect = this.quizService.validateAnswer(
@@ -247,23 +794,54 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     if (isCorrect) {
       this.answerError = '';
     } else {
-      // Check if partially correct
-      const isPartial = this.quizService.isPartiallyCorrect(
+      if (this.currentQuestion.questionType === 'reverse') {
+        this.answerError = this.quizService.describeReadings(
+          this.currentQuestion
+        );
+        return;
+      }
+
+      // Explain the specific mistake
+      const classification = this.quizService.classifyAnswer(
         this.currentQuestion,
         this.currentAnswer
       );
 
-      if (isPartial) {
-        this.answerError =
-          'Close, but not quite correct. Check spelling and umlauts.';
-      } else {
-        this.answerError = 'Incorrect. Try again or use a hint.';
-      }
+      this.answerError =
+        classification?.explanation || 'Incorrect. Try again or use a hint.';
     }
   }
 
+  /**
+   * Grade each table cell and report how many are right
+   */
+  private checkTableAnswers(question: Question): void {
+    this.showValidation = true;
+    this.tableResults = {};
+
+    question.cells!.forEach((cell) => {
+      this.tableResults[this.cellKey(cell)] = this.quizService.validateAnswer(
+        this.quizService.getCellQuestion(question, cell),
+        this.tableAnswers[this.cellKey(cell)] || ''
+      );
+    });
+
+    const correct = Object.values(this.tableResults).filter((r) => r).length;
+    this.answerError =
+      correct === question.cells!.length
+        ? ''
+        : `${correct}/${question.cells!.length} cells correct. Check the marked persons.`;
+  }
+
   isCurrentAnswerCorrect(): boolean {
     if (!this.currentQuestion || !this.currentAnswer) return false;
+
+    if (this.currentQuestion.cells) {
+      return this.currentQuestion.cells.every(
+        (cell) => this.tableResults[this.cellKey(cell)]
+      );
+    }
+
     return this.quizService.validateAnswer(
       this.currentQuestion,
       this.currentAnswer
@@ -273,7 +851,7 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
   // ==================== QUIZ COMPLETION ====================
 
   canSubmitQuiz(): boolean {
-    return this.userAnswers.size === this.questions.length;
+    return this.questionsRemaining === 0;
   }
 
   confirmSubmitQuiz(): void {
@@ -281,7 +859,7 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     this.saveCurrentAnswer();
 
     // Check if all questions are answered after saving
-    const unanswered = this.questions.length - this.userAnswers.size;
+    const unanswered = this.questionsRemaining;
 
     if (unanswered > 0) {
       const confirm = window.confirm(
@@ -293,12 +871,34 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     this.submitQuiz();
   }
 
+  /**
+   * End a survival run early; the current question only counts
+   * if it was answered
+   */
+  endRun(): void {
+    this.saveCurrentAnswer();
+
+    if (
+      this.questions.length > 1 &&
+      !this.isQuestionAnswered(this.currentQuestionIndex)
+    ) {
+      this.questions.splice(this.currentQuestionIndex, 1);
+    }
+
+    this.submitQuiz();
+  }
+
   submitQuiz(): void {
     if (this.isSubmitting) return;
 
     this.isSubmitting = true;
     this.saveCurrentAnswer();
 
+    // Unvisited questions of a fixed quiz still count as unanswered
+    if (this.hasFixedLength) {
+      this.ensureQuestion(this.totalQuestions - 1);
+    }
+
     // Stop timer
     if (this.timerInterval) {
       clearInterval(this.timerInterval);
@@ -308,8 +908,12 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
     const result = this.quizService.scoreQuiz(
       this.questions,
       this.userAnswers,
-      this.startTime || new Date()
+      this.startTime || new Date(),
+      this.quizConfig?.hintPenalty
     );
+    result.config = this.quizConfig || undefined;
+    result.duration = this.getElapsedSeconds();
+    this.sessionService.clearSession();
 
     // Save result to localStorage
     const savedResult = this.resultsService.saveResult(result, null);
@@ -322,9 +926,9 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
 
   // ==================== UTILITY ====================
 
-  getFormattedTime(): string {
-    const minutes = Math.floor(this.elapsedSeconds / 60);
-    const seconds = this.elapsedSeconds % 60;
+  getFormattedTime(totalSeconds: number = this.elapsedSeconds): string {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   }
 
@@ -333,6 +937,8 @@ export class QuizContainerComponent implements OnInit, OnDestroy {
       'Are you sure you want to exit? Your progress will be lost.'
     );
     if (confirm) {
+      this.exiting = true;
+      this.sessionService.clearSession();
       this.router.navigate(['/config']);
     }
   }
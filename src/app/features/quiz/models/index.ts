@@ -1 +1,2 @@
 export * from './question.model';
+export * from './quiz-session.model';
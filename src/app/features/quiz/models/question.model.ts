@@ -1,21 +1,98 @@
-import { Verb } from '../../../core/models';
+import {
+  AnswerStrictness,
+  ChoiceSource,
+  ClauseType,
+  ConjugationErrorCategory,
+  FormReading,
+  PrincipalPart,
+  QuestionType,
+  TestConfig,
+  Verb,
+  Voice,
+} from '../../../core/models';
+
+/**
+ * One person of a table (full paradigm) question, or one field
+ * of a principal parts question
+ */
+export interface TableCell {
+  person: string;
+  part?: PrincipalPart; // Set for principal parts fields
+  correctAnswer: string;
+  acceptedAnswers?: string[]; // e.g. "sein" for the auxiliary "ist"
+  userAnswer?: string;
+  isCorrect?: boolean;
+  acceptedLeniently?: boolean;
+  errorCategory?: ConjugationErrorCategory;
+}
+
+export interface ClozeSentence {
+  prompt: string; // Sentence with gaps, e.g. "Gestern ___ wir ins Kino (gehen)"
+  sentence: string; // Sentence completed with the correct form
+}
+
+export interface ChoiceOption {
+  text: string; // Form shown to the learner
+  source: ChoiceSource; // Correct answer or kind of distractor
+}
 
 export interface Question {
   id: string; // Unique identifier for this question
   verb: Verb; // The verb being tested
   tense: string; // Which tense (präsens, präteritum, etc.)
   person: string; // Which person (ich, du, er, etc.)
+  voice?: Voice; // Passive voice; active when missing
   correctAnswer: string; // The correct conjugation
+  acceptedAnswers?: string[]; // Other correct forms (e.g. imperative with -e)
   userAnswer?: string; // User's submitted answer
   isCorrect?: boolean; // Whether the answer was correct
+  errorCategory?: ConjugationErrorCategory; // Classified mistake for wrong answers
+  answerStrictness?: AnswerStrictness; // Spelling rules used when grading
+  acceptedLeniently?: boolean; // Correct only under a lenient spelling rule
   questionText: string; // Human-readable question
+  questionType?: QuestionType; // Defaults to 'typed'
+  options?: ChoiceOption[]; // Shuffled options for multiple-choice questions
+  selectedOptionSource?: ChoiceSource; // Source of the option the user picked
+  shownForm?: string; // Conjugated form to identify (reverse questions)
+  acceptedReadings?: FormReading[]; // Every valid reading of shownForm
+  cells?: TableCell[]; // One cell per person (table questions)
+  sentence?: string; // Completed sentence (cloze questions)
+  clause?: ClauseType; // Main or subordinate clause (clause questions)
+  principalPart?: PrincipalPart; // Field graded on its own (principal parts)
+  explanation?: string; // Why the answer is right (auxiliary questions)
+  adaptiveLevel?: number; // Difficulty level when asked (adaptive quizzes)
+  isRetry?: boolean; // Re-asks a missed cell (adaptive quizzes)
+  timedOut?: boolean; // Left unanswered when the time ran out (speed runs)
+  hintLevel?: number; // Highest hint level shown; unaided when missing
+  shownAt?: number; // When first shown (ms, quiz clock without time away)
+  firstInputAt?: number; // First keystroke or option picked (ms timestamp)
+  answeredAt?: number; // First Check, option pick or move on with an answer
+}
+
+/**
+ * Hands out quiz questions one at a time
+ * Adaptive providers choose each question from the answers so far
+ */
+export interface QuestionProvider {
+  readonly adaptive: boolean; // Earlier answers decide later questions
+  readonly total: number; // Questions in the session; Infinity while open-ended
+  readonly mistakesLeft?: number; // Survival runs: mistakes before the run ends
+  next(): Question | null; // Null once the session is complete
+  recordAnswer(question: Question, userAnswer: string): void;
+}
+
+export interface AnswerClassification {
+  category: ConjugationErrorCategory;
+  explanation: string; // Learner-facing description of the mistake
 }
 
 export interface QuizResult {
   questions: Question[]; // All questions with answers
   score: number; // Number of correct answers
+  adjustedScore: number; // Correct answers less the hint penalty
   totalQuestions: number; // Total number of questions
-  percentage: number; // Score as percentage
+  percentage: number; // Adjusted score as percentage
   duration?: number; // Time taken in seconds (optional)
   timestamp: Date; // When the quiz was completed
+  config?: TestConfig; // Config the quiz was generated from, with its seed
 }
@@ -0,0 +1,19 @@
+import { TestConfig } from '../../../core/models';
+import { Question } from './question.model';
+
+/**
+ * An unfinished quiz, saved on every answer so it can be resumed
+ * after a page reload or an accidental navigation
+ */
+export interface QuizSession {
+  id: string; // Matched against the navigation state when resuming
+  config: TestConfig; // Config with its seed, to rebuild the provider
+  fixedLength: boolean; // All questions known up front (not adaptive/survival)
+  questions: Question[]; // Questions drawn so far, with their timings
+  answers: [string, string][]; // User answers by question (or cell) key
+  leftAt?: [string, number][]; // Unanswered questions moved away from, by id
+  currentQuestionIndex: number;
+  startTime: string; // When the quiz was started (ISO)
+  elapsedSeconds: number; // Time spent in the quiz, not counting time away
+  questionSeconds: number; // Time spent on the current question
+}
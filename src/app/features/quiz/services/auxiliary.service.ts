@@ -0,0 +1,99 @@
+import { Injectable } from '@angular/core';
+import { Auxiliary, AuxiliaryContext, Verb } from '../../../core/models';
+import { ErrorClassifierService } from './error-classifier.service';
+import { VerbService } from './verb.service';
+
+const GAP = '___';
+
+// Take sein without describing movement or a change of state
+const SEIN_EXCEPTIONS = [
+  'sein',
+  'bleiben',
+  'passieren',
+  'geschehen',
+  'gelingen',
+  'misslingen',
+  'begegnen',
+];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AuxiliaryService {
+  constructor(
+    private verbService: VerbService,
+    private errorClassifier: ErrorClassifierService
+  ) {
+    console.log('🔀 AuxiliaryService initialized');
+  }
+
+  /**
+   * Get the auxiliary a verb takes in its stored perfekt
+   * Returns null if the perfekt is missing or has no haben/sein form
+   */
+  getAuxiliary(verb: Verb): Auxiliary | null {
+    const perfect = this.verbService.getTenseConjugations(verb, 'perfekt');
+    const form = perfect?.['er'] || perfect?.['ich'];
+
+    return form ? this.errorClassifier.getAuxiliary(form) : null;
+  }
+
+  /**
+   * Get the context sentences of a verb that takes both auxiliaries
+   */
+  getContexts(verb: Verb): AuxiliaryContext[] {
+    return verb.alternative_auxiliary?.contexts || [];
+  }
+
+  /**
+   * Replace the auxiliary in a context sentence with a gap
+   * ("Ich ___ nach Berlin gefahren.")
+   */
+  gapSentence(sentence: string): string {
+    const words = sentence.split(' ');
+    const index = words.findIndex((word) =>
+      this.errorClassifier.getAuxiliary(word.replace(/[.,!?]/g, ''))
+    );
+
+    if (index === -1) {
+      return sentence;
+    }
+
+    words[index] = GAP;
+    return words.join(' ');
+  }
+
+  /**
+   * Explain why a verb takes an auxiliary, by the movement and
+   * change-of-state rule and its exceptions
+   */
+  explain(
+    verb: Verb,
+    auxiliary: Auxiliary,
+    context?: AuxiliaryContext
+  ): string {
+    if (context?.explanation) {
+      return context.explanation;
+    }
+
+    const infinitive = verb.infinitive;
+
+    if (auxiliary === 'sein') {
+      return SEIN_EXCEPTIONS.includes(infinitive)
+        ? `"${infinitive}" takes sein: like sein, bleiben and passieren, it is an exception to the movement rule.`
+        : `"${infinitive}" takes sein: it has no direct object and describes movement to a place or a change of state (like gehen or einschlafen).`;
+    }
+
+    if (verb.verb_type === 'modal') {
+      return `"${infinitive}" takes haben, like all modal verbs.`;
+    }
+    if (verb.reflexive) {
+      return `"sich ${infinitive}" takes haben, like all reflexive verbs.`;
+    }
+    if (verb.transitive) {
+      return `"${infinitive}" takes haben: it has a direct object, and verbs with a direct object take haben.`;
+    }
+
+    return `"${infinitive}" takes haben: it describes an activity or a state, not movement to a place or a change of state.`;
+  }
+}
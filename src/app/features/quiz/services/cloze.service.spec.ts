@@ -0,0 +1,72 @@
+import { TestBed } from '@angular/core/testing';
+import { SentenceTemplate } from '../../../core/models';
+import { CacheService } from '../../../core/services/cache.service';
+import { ABHOLEN, GEHEN } from '../../../testing/verb.fixtures';
+import { ClozeService } from './cloze.service';
+
+describe('ClozeService', () => {
+  let service: ClozeService;
+  let templates: SentenceTemplate[];
+
+  beforeEach(() => {
+    templates = [];
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: CacheService,
+          useValue: { getSentenceTemplates: () => templates },
+        },
+      ],
+    });
+    service = TestBed.inject(ClozeService);
+  });
+
+  it('puts a simple form in the verb slot', () => {
+    templates = [
+      { tense: 'präsens', person: 'ich', text: 'Heute {verb} {subject}.' },
+    ];
+
+    expect(service.buildCloze(GEHEN, 'präsens', 'ich', 'gehe')).toEqual({
+      prompt: 'Heute ___ ich. (gehen)',
+      sentence: 'Heute gehe ich.',
+    });
+  });
+
+  it('splits auxiliary and participle', () => {
+    templates = [
+      {
+        tense: 'perfekt',
+        person: 'ich',
+        text: 'Gestern {aux} {subject} {complement} {participle}.',
+        complement: 'nach Hause',
+      },
+    ];
+
+    expect(service.buildCloze(GEHEN, 'perfekt', 'ich', 'bin gegangen')).toEqual(
+      {
+        prompt: 'Gestern ___ ich nach Hause ___. (gehen)',
+        sentence: 'Gestern bin ich nach Hause gegangen.',
+      }
+    );
+  });
+
+  it('moves a separated prefix to the end of the clause', () => {
+    templates = [
+      {
+        tense: 'präsens',
+        person: 'ich',
+        text: 'Heute {verb} {subject} {complement}.',
+        complement: 'das Paket',
+      },
+    ];
+
+    expect(service.buildCloze(ABHOLEN, 'präsens', 'ich', 'hole ab')).toEqual({
+      prompt: 'Heute ___ ich das Paket ___. (abholen)',
+      sentence: 'Heute hole ich das Paket ab.',
+    });
+  });
+
+  it('returns null without a fitting template', () => {
+    expect(service.buildCloze(GEHEN, 'präsens', 'ich', 'gehe')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable } from '@angular/core';
+import { CacheService } from '../../../core/services/cache.service';
+import { RandomService } from '../../../core/services/random.service';
+import { ClauseType, SentenceTemplate, Verb } from '../../../core/models';
+import { ClozeSentence } from '../models';
+
+const GAP = '___';
+
+const SUBJECTS: Record<string, string> = {
+  ich: 'ich',
+  du: 'du',
+  er: 'er',
+  wir: 'wir',
+  ihr: 'ihr',
+  sie: 'sie',
+};
+
+// Time adverbs that fit each tense in a clause frame
+const TENSE_ADVERBS: Record<string, string> = {
+  präsens: 'heute',
+  präteritum: 'gestern',
+  perfekt: 'gestern',
+  plusquamperfekt: 'vorher',
+  futur: 'morgen',
+  futur2: 'bis morgen',
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ClozeService {
+  constructor(
+    private cacheService: CacheService,
+    private random: RandomService
+  ) {
+    console.log('🧩 ClozeService initialized');
+  }
+
+  /**
+   * Embed a conjugated form in a sentence from the template bank
+   * Returns null if no template fits the tense and person
+   */
+  buildCloze(
+    verb: Verb,
+    tense: string,
+    person: string,
+    form: string
+  ): ClozeSentence | null {
+    const templates = this.cacheService.getSentenceTemplates(
+      tense,
+      person,
+      verb.infinitive
+    );
+
+    if (templates.length === 0) {
+      return null;
+    }
+
+    // Verb-specific sentences read more naturally, so prefer them
+    const specific = templates.filter((t) => t.verbs && t.verbs.length > 0);
+    const pool = specific.length > 0 ? specific : templates;
+    const template = pool[this.random.nextInt(pool.length)];
+
+    // A separated prefix goes to the end of the clause: "Heute hole ich ab."
+    const words = form.split(' ');
+    const prefix = verb.prefix?.type === 'separable' ? verb.prefix.prefix : '';
+    if (
+      prefix &&
+      words.length > 1 &&
+      words[words.length - 1] === prefix &&
+      template.text.includes('{verb}')
+    ) {
+      const finite = words.slice(0, -1).join(' ');
+      return {
+        prompt: `${this.atClauseEnd(this.fill(template, person, GAP, GAP, ''), GAP)} (${verb.infinitive})`,
+        sentence: this.atClauseEnd(
+          this.fill(template, person, finite, finite, ''),
+          prefix
+        ),
+      };
+    }
+
+    const [auxiliary, ...rest] = words;
+    const participle = rest.join(' ');
+
+    return {
+      prompt: `${this.fill(template, person, GAP, GAP, participle ? GAP : '')} (${verb.infinitive})`,
+      sentence: this.fill(template, person, form, auxiliary, participle),
+    };
+  }
+
+  /**
+   * Put a separable verb into a main clause (gaps around the adverb)
+   * or a subordinate clause (one gap at the end)
+   * The answer is the words for the gaps in order
+   */
+  buildClause(
+    verb: Verb,
+    tense: string,
+    person: string,
+    clause: ClauseType,
+    form: string
+  ): ClozeSentence {
+    const subject = SUBJECTS[person] || person;
+    const adverb = TENSE_ADVERBS[tense] || '';
+
+    let prompt: string;
+    let sentence: string;
+
+    if (clause === 'main') {
+      const [finite, ...rest] = form.split(' ');
+      prompt = `${subject} ${GAP} ${adverb} ${GAP}.`;
+      sentence = `${subject} ${finite} ${adverb} ${rest.join(' ')}.`;
+    } else {
+      prompt = `Ich glaube, dass ${subject} ${adverb} ${GAP}.`;
+      sentence = `Ich glaube, dass ${subject} ${adverb} ${form}.`;
+    }
+
+    return {
+      prompt: `${this.tidy(prompt)} (${verb.infinitive})`,
+      sentence: this.tidy(sentence),
+    };
+  }
+
+  /**
+   * Fill a template's slots and tidy spacing and capitalization
+   */
+  private fill(
+    template: SentenceTemplate,
+    person: string,
+    verbText: string,
+    auxiliaryText: string,
+    participleText: string
+  ): string {
+    const text = template.text
+      .replace('{subject}', SUBJECTS[person] || person)
+      .replace('{complement}', template.complement || '')
+      .replace('{verb}', verbText)
+      .replace('{aux}', auxiliaryText)
+      .replace('{participle}', participleText);
+
+    return this.tidy(text);
+  }
+
+  private tidy(text: string): string {
+    const tidied = text
+      .replace(/\s+/g, ' ')
+      .replace(/\s+([.,!?])/g, '$1')
+      .trim();
+
+    return tidied.charAt(0).toUpperCase() + tidied.slice(1);
+  }
+
+  /**
+   * Add a word before the closing punctuation of a sentence
+   */
+  private atClauseEnd(text: string, word: string): string {
+    const [, body, punctuation] = text.match(/^(.*?)([.!?]*)$/)!;
+    return `${body} ${word}${punctuation}`;
+  }
+}
@@ -0,0 +1,228 @@
+import { Injectable } from '@angular/core';
+import { RandomService } from '../../../core/services/random.service';
+import { ChoiceSource, Verb } from '../../../core/models';
+import { ChoiceOption } from '../models';
+import { VerbService } from './verb.service';
+
+const WEAK_PRESENT_ENDINGS: Record<string, string> = {
+  ich: 'e',
+  du: 'st',
+  er: 't',
+  wir: 'en',
+  ihr: 't',
+  sie: 'en',
+};
+
+const WEAK_PAST_ENDINGS: Record<string, string> = {
+  ich: 'te',
+  du: 'test',
+  er: 'te',
+  wir: 'ten',
+  ihr: 'tet',
+  sie: 'ten',
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DistractorService {
+  constructor(
+    private verbService: VerbService,
+    private random: RandomService
+  ) {
+    console.log('🎲 DistractorService initialized');
+  }
+
+  /**
+   * Build shuffled multiple-choice options: the correct form plus
+   * distractors from the verb's own table and plausible mis-formations
+   */
+  generateOptions(
+    verb: Verb,
+    tense: string,
+    person: string,
+    correctAnswer: string,
+    optionCount: number = 4
+  ): ChoiceOption[] {
+    const seen = new Set<string>([this.normalize(correctAnswer)]);
+    const groups = new Map<ChoiceSource, string[]>();
+
+    const addCandidate = (source: ChoiceSource, form?: string | null) => {
+      // Stored forms lack the reflexive pronoun the correct answer has
+      const text =
+        form && this.verbService.addReflexivePronoun(verb, person, form);
+      if (!text || seen.has(this.normalize(text))) {
+        return;
+      }
+      seen.add(this.normalize(text));
+      groups.set(source, [...(groups.get(source) || []), text]);
+    };
+
+    // Mis-formations first, so they win over real forms when equal
+    addCandidate('missing-umlaut', this.buildMissingUmlaut(correctAnswer));
+    addCandidate(
+      'weak-ending',
+      this.buildWeakForm(verb, tense, person, correctAnswer)
+    );
+
+    const sameTense = verb.conjugations[tense];
+    if (sameTense) {
+      Object.keys(sameTense)
+        .filter((p) => p !== person)
+        .forEach((p) => addCandidate('other-person', sameTense[p]));
+    }
+
+    Object.keys(verb.conjugations)
+      .filter((t) => t !== tense)
+      .forEach((t) =>
+        addCandidate('other-tense', verb.conjugations[t]?.[person])
+      );
+
+    // Take one candidate per source in turn, for a varied set
+    const shuffledGroups = Array.from(groups.entries()).map(
+      ([source, texts]) => ({ source, texts: this.shuffle(texts) })
+    );
+    const distractors: ChoiceOption[] = [];
+
+    while (
+      distractors.length < optionCount - 1 &&
+      shuffledGroups.some((g) => g.texts.length > 0)
+    ) {
+      shuffledGroups.forEach((group) => {
+        if (distractors.length < optionCount - 1 && group.texts.length > 0) {
+          distractors.push({
+            text: group.texts.shift()!,
+            source: group.source,
+          });
+        }
+      });
+    }
+
+    return this.shuffle([
+      { text: correctAnswer, source: 'correct' as ChoiceSource },
+      ...distractors,
+    ]);
+  }
+
+  /**
+   * Get a short human-readable label for an option source
+   */
+  getSourceLabel(source: ChoiceSource): string {
+    const labels: Record<ChoiceSource, string> = {
+      correct: 'Correct form',
+      'other-person': 'Form of another person',
+      'other-tense': 'Form of another tense',
+      'weak-ending': 'Regular (weak) ending on an irregular verb',
+      'missing-umlaut': 'Missing umlaut',
+      'other-auxiliary': 'The other auxiliary (haben/sein)',
+    };
+    return labels[source] || source;
+  }
+
+  // ==================== MIS-FORMATIONS ====================
+
+  /**
+   * Correct form with its umlauts removed (e.g. "fährt" -> "fahrt")
+   */
+  private buildMissingUmlaut(correctAnswer: string): string | null {
+    if (!/[äöüÄÖÜ]/.test(correctAnswer)) {
+      return null;
+    }
+
+    return correctAnswer
+      .replace(/ä/g, 'a')
+      .replace(/ö/g, 'o')
+      .replace(/ü/g, 'u')
+      .replace(/Ä/g, 'A')
+      .replace(/Ö/g, 'O')
+      .replace(/Ü/g, 'U');
+  }
+
+  /**
+   * Regular conjugation of a strong/irregular verb
+   * (e.g. "gebt" for "gibt", "gehte" for "ging", "hat gegeht")
+   */
+  private buildWeakForm(
+    verb: Verb,
+    tense: string,
+    person: string,
+    correctAnswer: string
+  ): string | null {
+    const stem = verb.stem;
+    if (verb.verb_type === 'weak' || !stem) {
+      return null;
+    }
+
+    const linkingE = /[dt]$/.test(stem) ? 'e' : '';
+
+    switch (tense) {
+      case 'präsens': {
+        const ending = WEAK_PRESENT_ENDINGS[person];
+        if (!ending) return null;
+        const needsE = linkingE && ['du', 'er', 'ihr'].includes(person);
+        return stem + (needsE ? 'e' : '') + ending;
+      }
+
+      case 'präteritum': {
+        const ending = WEAK_PAST_ENDINGS[person];
+        return ending ? stem + linkingE + ending : null;
+      }
+
+      case 'perfekt': {
+        const [auxiliary, participle] = correctAnswer.split(' ');
+        if (!participle) return null;
+        return `${auxiliary} ${this.buildWeakParticiple(stem, participle)}`;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Weak participle built from the stem, keeping any separable prefix
+   */
+  private buildWeakParticiple(stem: string, participle: string): string {
+    const linkingE = /[dt]$/.test(stem) ? 'e' : '';
+
+    // "ge" stems like "geh" still get the prefix: "gegangen" -> "gegeht"
+    if (
+      participle.startsWith('ge') &&
+      (!stem.startsWith('ge') || participle.startsWith('gege'))
+    ) {
+      return `ge${stem}${linkingE}t`;
+    }
+
+    // Separable prefix: shared start of stem and participle ("ab" in "abgefunden")
+    let common = 0;
+    while (
+      common < stem.length &&
+      common < participle.length &&
+      stem[common] === participle[common]
+    ) {
+      common++;
+    }
+
+    if (participle.substring(common).startsWith('ge')) {
+      return `${participle.substring(0, common)}ge${stem.substring(common)}${linkingE}t`;
+    }
+
+    // Inseparable prefix: no ge- (e.g. "verstanden" -> "versteht")
+    return `${stem}${linkingE}t`;
+  }
+
+  // ==================== HELPERS ====================
+
+  private normalize(answer: string): string {
+    return answer.toLowerCase().trim().replace(/\s+/g, ' ');
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
@@ -0,0 +1,100 @@
+import { TestBed } from '@angular/core/testing';
+import { Verb } from '../../../core/models';
+import {
+  ABHOLEN,
+  GEBEN,
+  GEHEN,
+  MACHEN,
+  WERDEN,
+} from '../../../testing/verb.fixtures';
+import { Question } from '../models';
+import { ErrorClassifierService } from './error-classifier.service';
+
+describe('ErrorClassifierService', () => {
+  let service: ErrorClassifierService;
+
+  const category = (
+    verb: Verb,
+    tense: string,
+    person: string,
+    correctAnswer: string,
+    userAnswer: string
+  ) => {
+    const question: Question = {
+      id: 'q1',
+      verb,
+      tense,
+      person,
+      correctAnswer,
+      questionText: '',
+    };
+    return service.classify(question, userAnswer, correctAnswer)?.category;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ErrorClassifierService);
+  });
+
+  it('ignores empty and correct answers', () => {
+    expect(category(MACHEN, 'präsens', 'ich', 'mache', '')).toBeUndefined();
+    expect(
+      category(MACHEN, 'präsens', 'ich', 'mache', 'mache')
+    ).toBeUndefined();
+  });
+
+  it('recognizes the form of another person or tense', () => {
+    expect(category(GEBEN, 'präsens', 'du', 'gibst', 'gibt')).toBe(
+      'other-form'
+    );
+    expect(category(WERDEN, 'konjunktiv2', 'ich', 'würde', 'wurde')).toBe(
+      'other-form'
+    );
+  });
+
+  it('tells the auxiliary from the participle', () => {
+    expect(
+      category(GEHEN, 'perfekt', 'er', 'ist gegangen', 'hat gegangen')
+    ).toBe('wrong-auxiliary');
+    expect(
+      category(MACHEN, 'perfekt', 'ich', 'habe gemacht', 'habe gemachen')
+    ).toBe('wrong-participle');
+  });
+
+  it('finds a misplaced separable prefix', () => {
+    expect(category(ABHOLEN, 'präsens', 'ich', 'hole ab', 'abhole')).toBe(
+      'separable-prefix'
+    );
+  });
+
+  it('finds a missing or added umlaut', () => {
+    expect(category(WERDEN, 'konjunktiv2', 'du', 'würdest', 'wuerdest')).toBe(
+      'missing-umlaut'
+    );
+    expect(category(MACHEN, 'präsens', 'ich', 'mache', 'mäche')).toBe(
+      'missing-umlaut'
+    );
+  });
+
+  it('finds a regular stem where the vowel changes', () => {
+    expect(category(GEBEN, 'präsens', 'du', 'gibst', 'gebst')).toBe(
+      'missing-stem-change'
+    );
+  });
+
+  it('finds a wrong ending on the right stem', () => {
+    expect(category(MACHEN, 'präsens', 'du', 'machst', 'machet')).toBe(
+      'wrong-ending'
+    );
+  });
+
+  it('falls back to an unknown mistake', () => {
+    expect(category(MACHEN, 'präsens', 'du', 'machst', 'xyz')).toBe('unknown');
+  });
+
+  it('gets the auxiliary of a compound form', () => {
+    expect(service.getAuxiliary('Hatte gemacht')).toBe('haben');
+    expect(service.getAuxiliary('wäre gegangen')).toBe('sein');
+    expect(service.getAuxiliary('mache')).toBeNull();
+  });
+});
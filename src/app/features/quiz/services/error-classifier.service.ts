@@ -0,0 +1,321 @@
+import { Injectable } from '@angular/core';
+import { ConjugationErrorCategory } from '../../../core/models';
+import { AnswerClassification, Question } from '../models';
+
+const HABEN_FORMS = [
+  'habe',
+  'hast',
+  'hat',
+  'haben',
+  'habt',
+  'hatte',
+  'hattest',
+  'hatten',
+  'hattet',
+  'hätte',
+  'hättest',
+  'hätten',
+  'hättet',
+];
+
+const SEIN_FORMS = [
+  'bin',
+  'bist',
+  'ist',
+  'sind',
+  'seid',
+  'war',
+  'warst',
+  'waren',
+  'wart',
+  'wäre',
+  'wärest',
+  'wären',
+  'wäret',
+];
+
+const CATEGORY_LABELS: Record<ConjugationErrorCategory, string> = {
+  'missing-umlaut': 'Missing umlaut',
+  'wrong-ending': 'Wrong personal ending',
+  'wrong-auxiliary': 'Wrong auxiliary (haben/sein)',
+  'wrong-participle': 'Wrong past participle',
+  'missing-stem-change': 'Missing stem-vowel change',
+  'separable-prefix': 'Separable prefix misplaced',
+  'reflexive-pronoun': 'Wrong or missing reflexive pronoun',
+  'other-form': 'Form of another person/tense',
+  unknown: 'Other mistake',
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ErrorClassifierService {
+  constructor() {
+    console.log('🔬 ErrorClassifierService initialized');
+  }
+
+  /**
+   * Classify a wrong answer into a linguistic error category
+   * Both answers must already be normalized. Returns null if the
+   * answer is empty or correct.
+   */
+  classify(
+    question: Question,
+    userAnswer: string,
+    correctAnswer: string
+  ): AnswerClassification | null {
+    if (!userAnswer || userAnswer === correctAnswer) {
+      return null;
+    }
+
+    return (
+      this.checkOtherForm(question, userAnswer) ||
+      this.checkCompoundForm(userAnswer, correctAnswer) ||
+      this.checkSeparablePrefix(userAnswer, correctAnswer) ||
+      this.checkUmlaut(userAnswer, correctAnswer) ||
+      this.checkStemChange(question, userAnswer, correctAnswer) ||
+      this.checkEnding(question, userAnswer, correctAnswer) || {
+        category: 'unknown',
+        explanation: 'Incorrect. Try again or use a hint.',
+      }
+    );
+  }
+
+  /**
+   * Get a short human-readable label for an error category
+   */
+  getCategoryLabel(category: ConjugationErrorCategory): string {
+    return CATEGORY_LABELS[category] || category;
+  }
+
+  /**
+   * Get the auxiliary verb (haben/sein) of a compound form, if any
+   */
+  getAuxiliary(form: string): 'haben' | 'sein' | null {
+    const firstWord = this.normalize(form).split(' ')[0];
+
+    if (HABEN_FORMS.includes(firstWord)) return 'haben';
+    if (SEIN_FORMS.includes(firstWord)) return 'sein';
+    return null;
+  }
+
+  // ==================== CHECKS ====================
+
+  /**
+   * The answer is a real form of the same verb, but for another
+   * person or tense (checks the asked tense first)
+   */
+  private checkOtherForm(
+    question: Question,
+    userAnswer: string
+  ): AnswerClassification | null {
+    const conjugations = question.verb.conjugations;
+    const tenses = [
+      question.tense,
+      ...Object.keys(conjugations).filter((t) => t !== question.tense),
+    ];
+
+    for (const tense of tenses) {
+      const forms = conjugations[tense];
+      if (!forms) continue;
+
+      for (const person of Object.keys(forms)) {
+        if (tense === question.tense && person === question.person) continue;
+
+        if (this.normalize(forms[person]) === userAnswer) {
+          const explanation =
+            tense === question.tense
+              ? `"${forms[person]}" is the form for "${person}", not "${question.person}". Check the personal ending.`
+              : `"${forms[person]}" is the ${tense} form for "${person}". The question asks for ${question.tense}, "${question.person}".`;
+
+          return { category: 'other-form', explanation };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Compound tenses: distinguish the auxiliary from the participle
+   */
+  private checkCompoundForm(
+    userAnswer: string,
+    correctAnswer: string
+  ): AnswerClassification | null {
+    const correctAux = this.getAuxiliary(correctAnswer);
+    if (!correctAux) {
+      return null;
+    }
+
+    const [correctAuxForm, ...correctRest] = correctAnswer.split(' ');
+    const [userAuxForm, ...userRest] = userAnswer.split(' ');
+    const correctParticiple = correctRest.join(' ');
+    const userParticiple = userRest.join(' ');
+    const userAux = this.getAuxiliary(userAnswer);
+
+    if (userAux && userAux !== correctAux) {
+      return {
+        category: 'wrong-auxiliary',
+        explanation: `This verb takes "${correctAux}" as its auxiliary, not "${userAux}": use "${correctAuxForm}".`,
+      };
+    }
+
+    if (userAux && userAuxForm !== correctAuxForm) {
+      if (userParticiple === correctParticiple) {
+        return {
+          category: 'wrong-ending',
+          explanation: `The auxiliary needs the right ending for this person: "${correctAuxForm}", not "${userAuxForm}".`,
+        };
+      }
+      return null;
+    }
+
+    if (userAux && userParticiple !== correctParticiple) {
+      return {
+        category: 'wrong-participle',
+        explanation: `The auxiliary is right, but the past participle is "${correctParticiple}".`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Separable prefix in the wrong place (e.g. "anrufe" vs "rufe an")
+   */
+  private checkSeparablePrefix(
+    userAnswer: string,
+    correctAnswer: string
+  ): AnswerClassification | null {
+    const userWords = userAnswer.split(' ');
+    const correctWords = correctAnswer.split(' ');
+
+    if (userWords.length === 1 && correctWords.length === 1) {
+      return null;
+    }
+
+    const reversedUser = [...userWords].reverse().join('');
+    const reversedCorrect = [...correctWords].reverse().join('');
+    const joinedUser = userWords.join('');
+    const joinedCorrect = correctWords.join('');
+
+    if (
+      (userWords.length > 1 && reversedUser === joinedCorrect) ||
+      (correctWords.length > 1 && reversedCorrect === joinedUser)
+    ) {
+      return {
+        category: 'separable-prefix',
+        explanation: `The separable prefix is in the wrong place: "${correctAnswer}".`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Same letters, but an umlaut is missing (or added)
+   */
+  private checkUmlaut(
+    userAnswer: string,
+    correctAnswer: string
+  ): AnswerClassification | null {
+    if (this.transliterate(userAnswer) === this.transliterate(correctAnswer)) {
+      return {
+        category: 'missing-umlaut',
+        explanation: `Spelled with ae/oe/ue/ss instead of umlauts or ß: "${correctAnswer}".`,
+      };
+    }
+
+    if (this.stripUmlauts(userAnswer) !== this.stripUmlauts(correctAnswer)) {
+      return null;
+    }
+
+    return {
+      category: 'missing-umlaut',
+      explanation: /[äöü]/.test(correctAnswer)
+        ? `Almost! Don't forget the umlaut: "${correctAnswer}".`
+        : `Almost! This form has no umlaut: "${correctAnswer}".`,
+    };
+  }
+
+  /**
+   * Regular stem used where a strong/irregular verb changes its vowel
+   * (e.g. "gebt" instead of "gibt", "gehte" instead of "ging")
+   */
+  private checkStemChange(
+    question: Question,
+    userAnswer: string,
+    correctAnswer: string
+  ): AnswerClassification | null {
+    const stem = this.normalize(question.verb.stem || '');
+
+    if (
+      !stem ||
+      !['präsens', 'präteritum'].includes(question.tense) ||
+      correctAnswer.startsWith(stem) ||
+      !userAnswer.startsWith(stem)
+    ) {
+      return null;
+    }
+
+    return {
+      category: 'missing-stem-change',
+      explanation: `"${question.verb.infinitive}" changes its stem here: "${correctAnswer}".`,
+    };
+  }
+
+  /**
+   * Right stem, wrong personal ending
+   */
+  private checkEnding(
+    question: Question,
+    userAnswer: string,
+    correctAnswer: string
+  ): AnswerClassification | null {
+    let common = 0;
+    while (
+      common < userAnswer.length &&
+      common < correctAnswer.length &&
+      userAnswer[common] === correctAnswer[common]
+    ) {
+      common++;
+    }
+
+    const shorter = Math.min(userAnswer.length, correctAnswer.length);
+    if (common < 2 || common < shorter - 3) {
+      return null;
+    }
+
+    const ending = correctAnswer.substring(common);
+
+    return {
+      category: 'wrong-ending',
+      explanation: ending
+        ? `Right stem, but check the ending for "${question.person}": "-${ending}".`
+        : `Right stem, but the ending for "${question.person}" is wrong: "${correctAnswer}".`,
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  private normalize(answer: string): string {
+    return answer
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, ' ')
+      .replace(/[.,!?;:]/g, '');
+  }
+
+  private transliterate(answer: string): string {
+    return answer
+      .replace(/ä/g, 'ae')
+      .replace(/ö/g, 'oe')
+      .replace(/ü/g, 'ue')
+      .replace(/ß/g, 'ss');
+  }
+
+  private stripUmlauts(answer: string): string {
+    return answer.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u');
+  }
+}
@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+import { Verb } from '../../../core/models';
+import { ABHOLEN, GEBEN, GEHEN, MACHEN } from '../../../testing/verb.fixtures';
+import { Question } from '../models';
+import { HintService } from './hint.service';
+
+describe('HintService', () => {
+  let service: HintService;
+
+  const question = (
+    verb: Verb,
+    tense: string,
+    person: string,
+    correctAnswer: string,
+    extra: Partial<Question> = {}
+  ): Question => ({
+    id: 'q1',
+    verb,
+    tense,
+    person,
+    correctAnswer,
+    questionText: '',
+    ...extra,
+  });
+
+  const hints = (q: Question) =>
+    [1, 2, 3, 4].map((level) => service.getHint(q, level));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(HintService);
+  });
+
+  it('walks from the rules to the letters of a present form', () => {
+    expect(hints(question(GEBEN, 'präsens', 'du', 'gibst'))).toEqual([
+      'Strong verb, stem change e→i',
+      'Stem: gib-',
+      'du: stem + -st',
+      'gi...',
+    ]);
+  });
+
+  it('splits the participle of a compound form', () => {
+    expect(hints(question(GEHEN, 'perfekt', 'er', 'ist gegangen'))).toEqual([
+      'Strong verb, auxiliary sein',
+      'Stem: gegang-',
+      'Partizip II: stem + -en',
+      'ist ge...',
+    ]);
+  });
+
+  it('skips a separated prefix', () => {
+    const q = question(ABHOLEN, 'präsens', 'ich', 'hole ab');
+
+    expect(service.getRules(q)).toEqual(['Weak verb', 'separable prefix ab-']);
+    expect(service.getHint(q, 2)).toBe('Stem: hol-');
+  });
+
+  it('names the past stem rule', () => {
+    expect(
+      service.getRules(question(MACHEN, 'präteritum', 'ich', 'machte'))
+    ).toEqual(['Weak verb', 'past stem with -te']);
+  });
+
+  it('names the passive auxiliary', () => {
+    expect(
+      service.getRules(
+        question(MACHEN, 'präsens', 'er', 'wird gemacht', {
+          voice: 'vorgangspassiv',
+        })
+      )
+    ).toEqual(['Weak verb', 'werden + Partizip II']);
+  });
+
+  it('reveals letters for answers that are not a form', () => {
+    const q = question(GEBEN, 'präsens', 'du', 'geben', {
+      questionType: 'reverse',
+    });
+
+    expect(service.getRules(q)).toEqual(['Strong verb']);
+    expect(service.getHint(q, 2)).toBe('ge...');
+  });
+});
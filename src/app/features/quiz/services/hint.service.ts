@@ -0,0 +1,366 @@
+import { Injectable } from '@angular/core';
+import {
+  IMPERATIVE_TENSE,
+  REFLEXIVE_PRONOUNS,
+  Verb,
+  VerbType,
+} from '../../../core/models';
+import { Question } from '../models';
+import { ErrorClassifierService } from './error-classifier.service';
+
+/**
+ * Hint ladder: 1 rule, 2 stem, 3 ending pattern, 4 first letters
+ */
+export const MAX_HINT_LEVEL = 4;
+
+const VERB_TYPE_RULES: Record<VerbType, string> = {
+  weak: 'Weak verb',
+  strong: 'Strong verb',
+  irregular: 'Irregular verb',
+  modal: 'Modal verb',
+};
+
+// Tenses built from an auxiliary and the Partizip II
+const PARTICIPLE_TENSES = [
+  'perfekt',
+  'plusquamperfekt',
+  'futur2',
+  'konjunktiv2past',
+];
+
+// Tenses built from werden/würde and the infinitive
+const INFINITIVE_TENSES = ['futur', 'würde'];
+
+// Auxiliary words around the main verb of a compound form
+const AUXILIARY_WORDS = new Set([
+  'habe',
+  'hast',
+  'hat',
+  'haben',
+  'habt',
+  'hatte',
+  'hattest',
+  'hatten',
+  'hattet',
+  'hätte',
+  'hättest',
+  'hätten',
+  'hättet',
+  'bin',
+  'bist',
+  'ist',
+  'sind',
+  'seid',
+  'sein',
+  'war',
+  'warst',
+  'waren',
+  'wart',
+  'wäre',
+  'wärst',
+  'wären',
+  'wärt',
+  'werde',
+  'wirst',
+  'wird',
+  'werden',
+  'werdet',
+  'würde',
+  'würdest',
+  'würden',
+  'würdet',
+  'worden',
+]);
+
+// Pronouns that are part of an answer but not of the verb
+const PRONOUN_WORDS = new Set([
+  'wir',
+  'Sie',
+  ...Object.values(REFLEXIVE_PRONOUNS).flatMap((pronouns) =>
+    Object.values(pronouns)
+  ),
+]);
+
+// Person endings, longest first, to split a form into stem + ending
+const PRESENT_ENDINGS: Record<string, string[]> = {
+  ich: ['e'],
+  du: ['est', 'st', 't'],
+  er: ['et', 't'],
+  wir: ['en', 'n'],
+  ihr: ['et', 't'],
+  sie: ['en', 'n'],
+  Sie: ['en', 'n'],
+};
+
+const WEAK_PAST_ENDINGS: Record<string, string[]> = {
+  ich: ['ete', 'te'],
+  du: ['etest', 'test'],
+  er: ['ete', 'te'],
+  wir: ['eten', 'ten'],
+  ihr: ['etet', 'tet'],
+  sie: ['eten', 'ten'],
+  Sie: ['eten', 'ten'],
+};
+
+const STRONG_PAST_ENDINGS: Record<string, string[]> = {
+  ich: [],
+  du: ['est', 'st'],
+  er: [],
+  wir: ['en', 'n'],
+  ihr: ['et', 't'],
+  sie: ['en', 'n'],
+  Sie: ['en', 'n'],
+};
+
+const SUBJUNCTIVE_ENDINGS: Record<string, string[]> = {
+  ich: ['e'],
+  du: ['est'],
+  er: ['e'],
+  wir: ['en', 'n'],
+  ihr: ['et'],
+  sie: ['en', 'n'],
+  Sie: ['en', 'n'],
+};
+
+const IMPERATIVE_ENDINGS: Record<string, string[]> = {
+  du: ['e'],
+  ihr: ['et', 't'],
+  wir: ['en', 'n'],
+  Sie: ['en', 'n'],
+};
+
+// Partizip II and infinitive
+const NON_FINITE_ENDINGS = ['en', 'n', 'et', 't'];
+
+/**
+ * The verb word of an answer, split at its ending
+ */
+interface FormParts {
+  stem: string;
+  ending: string;
+  finite: boolean;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class HintService {
+  constructor(private errorClassifier: ErrorClassifierService) {
+    console.log('💡 HintService initialized');
+  }
+
+  /**
+   * Get the hint of a level (1 to MAX_HINT_LEVEL) for a single-answer
+   * question or one table cell
+   */
+  getHint(question: Question, level: number): string {
+    if (level <= 1) {
+      return this.getRules(question).join(', ');
+    }
+
+    // Answers that aren't a conjugated form go straight to letters
+    const parts = this.hasForm(question) ? this.splitForm(question) : null;
+
+    if (parts && level === 2) {
+      return `Stem: ${parts.stem}-`;
+    }
+    if (parts && level === 3) {
+      return this.describeEnding(question, parts);
+    }
+
+    return this.revealLetters(question.correctAnswer);
+  }
+
+  /**
+   * Level 1: verb type and the rules of this tense and person
+   * (["Strong verb", "stem change e→i", "auxiliary sein"])
+   */
+  getRules(question: Question): string[] {
+    const verb = question.verb;
+    const rules = [VERB_TYPE_RULES[verb.verb_type] || 'Verb'];
+    const passive = !!question.voice && question.voice !== 'aktiv';
+
+    if (!this.hasForm(question)) {
+      return rules;
+    }
+
+    if (
+      !passive &&
+      ['präsens', IMPERATIVE_TENSE].includes(question.tense) &&
+      question.questionType !== 'clause'
+    ) {
+      const parts = this.splitForm(question);
+      const change = parts && this.getStemChange(verb, parts.stem);
+      if (change) {
+        rules.push(`stem change ${change}`);
+      }
+    }
+
+    if (!passive && ['präteritum', 'konjunktiv2'].includes(question.tense)) {
+      rules.push(
+        verb.verb_type === 'strong'
+          ? 'new stem vowel, no -te'
+          : 'past stem with -te'
+      );
+    }
+
+    if (passive) {
+      rules.push(
+        question.voice === 'zustandspassiv'
+          ? 'sein + Partizip II'
+          : 'werden + Partizip II'
+      );
+    } else if (PARTICIPLE_TENSES.includes(question.tense)) {
+      const auxiliary = question.correctAnswer
+        .split(' ')
+        .map((word) => this.errorClassifier.getAuxiliary(word))
+        .find((aux) => aux);
+      if (auxiliary) {
+        rules.push(`auxiliary ${auxiliary}`);
+      }
+    } else if (INFINITIVE_TENSES.includes(question.tense)) {
+      rules.push(
+        `${question.tense === 'würde' ? 'würde' : 'werden'} + infinitive`
+      );
+    }
+
+    if (verb.prefix?.type === 'separable') {
+      rules.push(`separable prefix ${verb.prefix.prefix}-`);
+    }
+    if (verb.reflexive) {
+      rules.push(`reflexive (${verb.reflexive_case || 'accusative'})`);
+    }
+
+    return rules;
+  }
+
+  // ==================== FORM ANALYSIS ====================
+
+  /**
+   * Reverse, haben/sein and auxiliary-part answers aren't a form
+   * to build from a stem
+   */
+  private hasForm(question: Question): boolean {
+    return (
+      question.questionType !== 'reverse' &&
+      question.questionType !== 'auxiliary' &&
+      question.principalPart !== 'auxiliary'
+    );
+  }
+
+  /**
+   * Find the verb word of the answer (skipping auxiliaries, pronouns
+   * and a separated prefix) and split off its person ending
+   */
+  private splitForm(question: Question): FormParts | null {
+    const words = question.correctAnswer.split(/\s+/).filter((w) => w);
+    const prefix =
+      question.verb.prefix?.type === 'separable'
+        ? question.verb.prefix.prefix
+        : null;
+    const candidates = words.filter(
+      (word) =>
+        !AUXILIARY_WORDS.has(word) &&
+        !PRONOUN_WORDS.has(word) &&
+        word !== prefix
+    );
+
+    const finite =
+      (!question.voice || question.voice === 'aktiv') &&
+      !PARTICIPLE_TENSES.includes(question.tense) &&
+      !INFINITIVE_TENSES.includes(question.tense);
+
+    // Compound forms end with their main verb; finite forms start with it
+    const pool = candidates.length ? candidates : words;
+    const word = finite ? pool[0] : pool[pool.length - 1];
+    if (!word) {
+      return null;
+    }
+
+    const ending =
+      this.getEndings(question, finite).find(
+        (e) => word.endsWith(e) && word.length > e.length
+      ) || '';
+
+    return {
+      stem: word.slice(0, word.length - ending.length),
+      ending,
+      finite,
+    };
+  }
+
+  private getEndings(question: Question, finite: boolean): string[] {
+    if (!finite) {
+      return NON_FINITE_ENDINGS;
+    }
+
+    const strong = question.verb.verb_type === 'strong';
+    const byPerson =
+      question.tense === IMPERATIVE_TENSE
+        ? IMPERATIVE_ENDINGS
+        : question.tense === 'präteritum'
+          ? strong
+            ? STRONG_PAST_ENDINGS
+            : WEAK_PAST_ENDINGS
+          : question.tense === 'konjunktiv2'
+            ? strong
+              ? SUBJUNCTIVE_ENDINGS
+              : WEAK_PAST_ENDINGS
+            : question.tense === 'konjunktiv1'
+              ? SUBJUNCTIVE_ENDINGS
+              : PRESENT_ENDINGS;
+
+    return byPerson[question.person] || [];
+  }
+
+  /**
+   * Vowel change between the infinitive stem and a present form
+   * ("e→i" for geben / gibst); null if the stem is unchanged
+   */
+  private getStemChange(verb: Verb, formStem: string): string | null {
+    let stem = verb.stem;
+
+    // Separated forms (gibst ... ab) compare without the prefix
+    const prefix = verb.prefix?.type === 'separable' ? verb.prefix.prefix : '';
+    if (prefix && !formStem.startsWith(prefix)) {
+      stem = stem.replace(new RegExp(`^${prefix}`), '');
+    }
+
+    const index = [...stem].findIndex((char, i) => formStem[i] !== char);
+    if (index === -1) {
+      return null;
+    }
+
+    const vowels = /^[aeiouäöü]+/;
+    const from = stem.slice(index).match(vowels)?.[0];
+    const to = formStem.slice(index).match(vowels)?.[0];
+
+    return from && to && from !== to ? `${from}→${to}` : null;
+  }
+
+  /**
+   * Level 3: the ending pattern of the form, without its stem
+   */
+  private describeEnding(question: Question, parts: FormParts): string {
+    const ending = parts.ending ? `-${parts.ending}` : 'no ending';
+
+    if (parts.finite) {
+      return `${question.person}: stem + ${ending}`;
+    }
+
+    return PARTICIPLE_TENSES.includes(question.tense) ||
+      question.principalPart ||
+      (question.voice && question.voice !== 'aktiv')
+      ? `Partizip II: stem + ${ending}`
+      : `Infinitive: stem + ${ending}`;
+  }
+
+  /**
+   * Level 4: the first half of the answer
+   */
+  private revealLetters(answer: string): string {
+    return (
+      answer.substring(0, Math.max(1, Math.floor(answer.length / 2))) + '...'
+    );
+  }
+}
@@ -1,2 +1,9 @@
 export * from './verb.service';
 export * from './quiz.service';
+export * from './review-scheduler.service';
+export * from './error-classifier.service';
+export * from './distractor.service';
+export * from './cloze.service';
+export * from './auxiliary.service';
+export * from './hint.service';
+export * from './quiz-session.service';
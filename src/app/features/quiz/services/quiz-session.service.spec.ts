@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { DEFAULT_TEST_CONFIG } from '../../../core/models';
+import { MACHEN } from '../../../testing/verb.fixtures';
+import { QuizSession } from '../models';
+import { QuizSessionService } from './quiz-session.service';
+
+describe('QuizSessionService', () => {
+  let service: QuizSessionService;
+
+  const session: QuizSession = {
+    id: 'session-1',
+    config: { ...DEFAULT_TEST_CONFIG, seed: 42 },
+    fixedLength: true,
+    questions: [
+      {
+        id: 'q1',
+        verb: MACHEN,
+        tense: 'präsens',
+        person: 'ich',
+        correctAnswer: 'mache',
+        questionText: '',
+        shownAt: 1000,
+        firstInputAt: 2500,
+      },
+    ],
+    answers: [['q1', 'mache']],
+    leftAt: [['q1', 4000]],
+    currentQuestionIndex: 0,
+    startTime: '2024-03-01T10:00:00.000Z',
+    elapsedSeconds: 95,
+    questionSeconds: 12,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(QuizSessionService);
+    service.clearSession();
+  });
+
+  it('restores a saved quiz as it was', () => {
+    service.saveSession(session);
+
+    expect(service.getSession()).toEqual(session);
+  });
+
+  it('keeps only the latest quiz', () => {
+    service.saveSession(session);
+    service.saveSession({ ...session, id: 'session-2' });
+
+    expect(service.getSession()?.id).toBe('session-2');
+  });
+
+  it('has no quiz after clearing', () => {
+    service.saveSession(session);
+    service.clearSession();
+
+    expect(service.getSession()).toBeNull();
+  });
+});
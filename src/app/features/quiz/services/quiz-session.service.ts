@@ -0,0 +1,41 @@
+import { Injectable } from '@angular/core';
+import { QuizSession } from '../models';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class QuizSessionService {
+  private readonly STORAGE_KEY = 'german-verb-trainer-quiz-session';
+
+  constructor() {
+    console.log('💾 QuizSessionService initialized');
+  }
+
+  /**
+   * Save the in-progress quiz, replacing any earlier one
+   */
+  saveSession(session: QuizSession): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('❌ Error saving quiz session:', error);
+    }
+  }
+
+  /**
+   * Get the unfinished quiz, if there is one
+   */
+  getSession(): QuizSession | null {
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      return data ? (JSON.parse(data) as QuizSession) : null;
+    } catch (error) {
+      console.error('❌ Error parsing quiz session from localStorage:', error);
+      return null;
+    }
+  }
+
+  clearSession(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+}
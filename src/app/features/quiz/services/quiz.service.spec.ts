@@ -0,0 +1,309 @@
+import { TestBed } from '@angular/core/testing';
+import { DEFAULT_TEST_CONFIG, TestConfig } from '../../../core/models';
+import { CacheService } from '../../../core/services/cache.service';
+import {
+  ABFASSEN,
+  ARBEITEN,
+  FIXTURE_VERBS,
+  GEBEN,
+  MACHEN,
+  provideVerbs,
+} from '../../../testing/verb.fixtures';
+import { Question } from '../models';
+import { QuizService } from './quiz.service';
+
+describe('QuizService', () => {
+  let service: QuizService;
+
+  const config = (overrides: Partial<TestConfig> = {}): TestConfig => ({
+    ...DEFAULT_TEST_CONFIG,
+    tenses: ['präsens', 'präteritum'],
+    persons: ['ich', 'du', 'er'],
+    verbTypes: ['weak', 'strong'],
+    difficultyLevels: [1],
+    questionCount: 8,
+    ...overrides,
+  });
+
+  // Everything a learner sees of a question, without its generated id
+  const describeQuestion = (question: Question) =>
+    [
+      question.verb.infinitive,
+      question.tense,
+      question.person,
+      question.voice,
+      question.correctAnswer,
+      ...(question.options || []).map((option) => option.text),
+    ].join('|');
+
+  const setUp = async (...fixtures: Parameters<typeof provideVerbs>) => {
+    TestBed.configureTestingModule({ providers: [provideVerbs(...fixtures)] });
+    await TestBed.inject(CacheService).initializeCache();
+    service = TestBed.inject(QuizService);
+  };
+
+  describe('generateQuestions with a seed', () => {
+    beforeEach(() => setUp());
+
+    it('generates the same questions for the same seed', () => {
+      const first = service.generateQuestions(config({ seed: 1234 }));
+      const second = service.generateQuestions(config({ seed: 1234 }));
+
+      expect(first.length).toBe(8);
+      expect(second.map(describeQuestion)).toEqual(first.map(describeQuestion));
+    });
+
+    it('generates the same options for multiple-choice questions', () => {
+      const seeded = config({ seed: 99, questionType: 'multiple-choice' });
+      const first = service.generateQuestions(seeded);
+      const second = service.generateQuestions(seeded);
+
+      expect(first.every((q) => (q.options || []).length > 1)).toBeTrue();
+      expect(second.map(describeQuestion)).toEqual(first.map(describeQuestion));
+    });
+
+    it('generates other questions for another seed', () => {
+      const first = service.generateQuestions(config({ seed: 1 }));
+      const second = service.generateQuestions(config({ seed: 2 }));
+
+      expect(second.map(describeQuestion)).not.toEqual(
+        first.map(describeQuestion)
+      );
+    });
+
+    it('repeats every sampling strategy', () => {
+      (['uniform', 'balanced', 'one-per-verb'] as const).forEach((sampling) => {
+        const seeded = config({ seed: 5, sampling });
+        expect(service.generateQuestions(seeded).map(describeQuestion)).toEqual(
+          service.generateQuestions(seeded).map(describeQuestion)
+        );
+      });
+    });
+  });
+
+  describe('sampling strategies', () => {
+    beforeEach(() => setUp());
+
+    const countBy = (questions: Question[], key: (q: Question) => string) =>
+      questions.reduce<Record<string, number>>((counts, question) => {
+        counts[key(question)] = (counts[key(question)] || 0) + 1;
+        return counts;
+      }, {});
+
+    it('spreads balanced quizzes evenly over tenses, persons and verb types', () => {
+      [1, 2, 3].forEach((seed) => {
+        const questions = service.generateQuestions(
+          config({
+            seed,
+            sampling: 'balanced',
+            persons: ['ich', 'du'],
+            questionCount: 4,
+          })
+        );
+
+        expect(countBy(questions, (q) => q.tense)).toEqual({
+          präsens: 2,
+          präteritum: 2,
+        });
+        expect(countBy(questions, (q) => q.person)).toEqual({ ich: 2, du: 2 });
+        expect(countBy(questions, (q) => q.verb.verb_type)).toEqual({
+          weak: 2,
+          strong: 2,
+        });
+        expect(new Set(questions.map((q) => q.verb.infinitive)).size).toBe(4);
+      });
+    });
+
+    it('asks each verb at most once with one-per-verb', () => {
+      [1, 2, 3].forEach((seed) => {
+        const questions = service.generateQuestions(
+          config({ seed, sampling: 'one-per-verb' })
+        );
+        const infinitives = questions.map((q) => q.verb.infinitive);
+
+        // Five weak and strong fixture verbs for eight questions
+        expect(infinitives.length).toBe(5);
+        expect(new Set(infinitives).size).toBe(5);
+      });
+    });
+  });
+
+  describe('survival provider', () => {
+    beforeEach(() => setUp());
+
+    it('counts mistakes and ends at the allowed number', () => {
+      const provider = service.createQuestionProvider(
+        config({ seed: 7, maxMistakes: 2 })
+      );
+      expect(provider.total).toBe(Infinity);
+      expect(provider.mistakesLeft).toBe(2);
+
+      const first = provider.next()!;
+      provider.recordAnswer(first, first.correctAnswer);
+      expect(provider.mistakesLeft).toBe(2);
+
+      const second = provider.next()!;
+      provider.recordAnswer(second, 'falsch');
+      expect(provider.mistakesLeft).toBe(1);
+
+      const third = provider.next()!;
+      provider.recordAnswer(third, 'falsch');
+      expect(provider.mistakesLeft).toBe(0);
+
+      expect(provider.next()).toBeNull();
+      expect(provider.total).toBe(3);
+    });
+  });
+
+  describe('adaptive provider', () => {
+    beforeEach(() => setUp());
+
+    // präsens is level 1, präteritum level 2; all fixture verbs are level 1
+    const adaptive = () =>
+      service.createQuestionProvider(
+        config({ seed: 11, selectionMode: 'adaptive', questionCount: 10 })
+      );
+
+    it('starts at the easiest level and moves up after a streak', () => {
+      const provider = adaptive();
+
+      const first = provider.next()!;
+      expect(first.adaptiveLevel).toBe(1);
+      expect(first.tense).toBe('präsens');
+      provider.recordAnswer(first, first.correctAnswer);
+
+      const second = provider.next()!;
+      expect(second.adaptiveLevel).toBe(1);
+      provider.recordAnswer(second, second.correctAnswer);
+
+      expect(provider.next()!.adaptiveLevel).toBe(2);
+    });
+
+    it('moves down after a mistake and re-asks the missed cell', () => {
+      const provider = adaptive();
+      [1, 2].forEach(() => {
+        const question = provider.next()!;
+        provider.recordAnswer(question, question.correctAnswer);
+      });
+
+      const missed = provider.next()!;
+      provider.recordAnswer(missed, 'falsch');
+
+      const next = provider.next()!;
+      expect(next.adaptiveLevel).toBe(1);
+      provider.recordAnswer(next, next.correctAnswer);
+
+      const retry = [provider.next()!, provider.next()!, provider.next()!].find(
+        (question) => question.isRetry
+      );
+      expect(retry?.verb.infinitive).toBe(missed.verb.infinitive);
+      expect(retry?.tense).toBe(missed.tense);
+      expect(retry?.person).toBe(missed.person);
+    });
+  });
+
+  describe('cloze questions', () => {
+    beforeEach(() =>
+      setUp(
+        [ABFASSEN],
+        [{ tense: 'präsens', person: 'ich', text: 'Heute {verb} {subject}.' }]
+      )
+    );
+
+    it('splits separable verbs stored joined', () => {
+      const [question] = service.generateQuestions(
+        config({
+          tenses: ['präsens'],
+          persons: ['ich'],
+          verbTypes: ['weak'],
+          questionType: 'cloze',
+          questionCount: 1,
+        })
+      );
+
+      expect(question.correctAnswer).toBe('fasse ab');
+      expect(question.sentence).toBe('Heute fasse ich ab.');
+      expect(question.acceptedAnswers).toEqual(['fasse ... ab']);
+    });
+  });
+
+  describe('table questions', () => {
+    beforeEach(() => setUp());
+
+    it('only asks the selected persons', () => {
+      const questions = service.generateQuestions(
+        config({ questionType: 'table', persons: ['wir', 'ich'] })
+      );
+
+      expect(questions.length).toBeGreaterThan(0);
+      questions.forEach((question) =>
+        expect((question.cells || []).map((cell) => cell.person)).toEqual([
+          'ich',
+          'wir',
+        ])
+      );
+    });
+  });
+
+  describe('scoreQuiz with a hint penalty', () => {
+    beforeEach(() => setUp());
+
+    it('keeps the correct count and takes hints off the adjusted score', () => {
+      const questions = service
+        .generateQuestions(config({ seed: 3, questionCount: 3 }))
+        .map((question, i) => ({ ...question, hintLevel: i }));
+      const answers = new Map(
+        questions.map((question) => [question.id, question.correctAnswer])
+      );
+
+      const result = service.scoreQuiz(questions, answers, undefined, 0.25);
+
+      expect(result.score).toBe(3);
+      expect(result.adjustedScore).toBe(2.25); // 1 + 0.75 + 0.5
+      expect(result.percentage).toBe(75);
+    });
+  });
+
+  describe('validateConfiguration', () => {
+    const passive = config({ voices: ['vorgangspassiv'], questionCount: 4 });
+
+    it('reports a passive voice no selected verb has', async () => {
+      await setUp();
+
+      expect(service.validateConfiguration(passive).errors).toContain(
+        'No selected verb has vorgangspassiv forms in the selected tenses (verbs must be marked transitive)'
+      );
+    });
+
+    it('reports clause questions without separable verbs', async () => {
+      await setUp([MACHEN, ARBEITEN, GEBEN]);
+
+      expect(
+        service.validateConfiguration(
+          config({ questionType: 'clause', questionCount: 3 })
+        ).errors
+      ).toEqual([
+        'No separable verbs with prefix metadata match the selected criteria',
+      ]);
+    });
+
+    it('accepts clause questions with a separable verb', async () => {
+      await setUp();
+
+      expect(
+        service.validateConfiguration(
+          config({ questionType: 'clause', questionCount: 4 })
+        ).errors
+      ).toEqual([]);
+    });
+
+    it('accepts a passive voice with a transitive verb', async () => {
+      await setUp([
+        ...FIXTURE_VERBS.filter((verb) => verb !== MACHEN),
+        { ...MACHEN, transitive: true },
+      ]);
+
+      expect(service.validateConfiguration(passive).errors).toEqual([]);
+    });
+  });
+});
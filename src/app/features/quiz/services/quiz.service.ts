@@ -1,14 +1,146 @@
 import { Injectable } from '@angular/core';
 import { v4 as uuidv4 } from 'uuid';
 import { VerbService } from './verb.service';
-import { Question, QuizResult } from '../models';
-import { TestConfig, VerbType } from '../../../core/models';
+import { ReviewSchedulerService } from './review-scheduler.service';
+import { ErrorClassifierService } from './error-classifier.service';
+import { DistractorService } from './distractor.service';
+import { ClozeService } from './cloze.service';
+import { AuxiliaryService } from './auxiliary.service';
+import { HintService } from './hint.service';
+import { HistoryService } from '../../history/services/history.service';
+import {
+  AnswerMatch,
+  AnswerMatcherService,
+} from '../../../core/services/answer-matcher.service';
+import { RandomService } from '../../../core/services/random.service';
+import {
+  AnswerClassification,
+  Question,
+  QuestionProvider,
+  QuizResult,
+  TableCell,
+} from '../models';
+import {
+  AUXILIARY_TENSE,
+  Auxiliary,
+  AuxiliaryContext,
+  ClauseType,
+  FormReading,
+  IMPERATIVE_PERSONS,
+  IMPERATIVE_TENSE,
+  ImperativePerson,
+  PRINCIPAL_PARTS,
+  PRINCIPAL_PARTS_TENSE,
+  PrincipalPart,
+  QuestionType,
+  REFLEXIVE_PRONOUNS,
+  TestConfig,
+  Verb,
+  VerbType,
+  Voice,
+} from '../../../core/models';
+
+const READING_SEPARATOR = ' · ';
+
+const VOICE_LABELS: Record<Voice, string> = {
+  aktiv: 'Active',
+  vorgangspassiv: 'Passive (werden)',
+  zustandspassiv: 'State Passive (sein)',
+};
+
+const TABLE_PERSONS = ['ich', 'du', 'er', 'wir', 'ihr', 'sie'];
+
+const PRINCIPAL_PART_LABELS: Record<PrincipalPart, string> = {
+  präteritum: 'Präteritum',
+  partizip: 'Partizip II',
+  auxiliary: 'hat/ist',
+};
+
+// Tense each principal part comes from, for error classification
+const PRINCIPAL_PART_TENSES: Record<PrincipalPart, string> = {
+  präteritum: 'präteritum',
+  partizip: 'perfekt',
+  auxiliary: 'perfekt',
+};
+
+// Auxiliaries may also be given as infinitives
+const AUXILIARY_INFINITIVES: Record<string, string> = {
+  hat: 'haben',
+  ist: 'sein',
+};
+
+const REFLEXIVE_PRONOUN_WORDS = new Set(
+  Object.values(REFLEXIVE_PRONOUNS).flatMap((pronouns) =>
+    Object.values(pronouns)
+  )
+);
+
+const TENSE_LABELS: Record<string, string> = {
+  präsens: 'Present',
+  präteritum: 'Simple Past',
+  perfekt: 'Present Perfect',
+  plusquamperfekt: 'Past Perfect',
+  futur: 'Future',
+  futur2: 'Future Perfect',
+  imperativ: 'Imperative',
+  stammformen: 'Principal Parts',
+  hilfsverb: 'haben/sein',
+  konjunktiv1: 'Subjunctive I',
+  konjunktiv2: 'Subjunctive II',
+  konjunktiv2past: 'Subjunctive II Past',
+  würde: 'würde + Infinitive',
+};
+
+// Tense difficulty on the verb difficulty scale (1-5): adaptive quizzes
+// bring in a tense once the level reaches it
+const TENSE_DIFFICULTY: Record<string, number> = {
+  präsens: 1,
+  präteritum: 2,
+  perfekt: 2,
+  futur: 2,
+  würde: 3,
+  plusquamperfekt: 3,
+  konjunktiv2: 3,
+  futur2: 4,
+  konjunktiv1: 4,
+  konjunktiv2past: 5,
+};
+
+// Question types asked one verb/tense/person cell at a time, which
+// adaptive and survival quizzes can draw one by one
+const CELL_QUESTION_TYPES: QuestionType[] = [
+  'typed',
+  'multiple-choice',
+  'cloze',
+  'reverse',
+  'clause',
+];
+
+const ADAPTIVE_STREAK = 2; // Correct answers in a row to move up a level
+const ADAPTIVE_RETRY_GAP = 3; // Questions before a missed cell is re-asked
+const ADAPTIVE_PICK_ATTEMPTS = 50; // Random draws before widening the pool
+
+const BALANCED_ATTEMPTS = 20; // Deals per question before falling back
+
+// One verb/tense/person/voice cell a question can be asked about
+type QuizCell = { verb: Verb; tense: string; person: string; voice: Voice };
 
 @Injectable({
   providedIn: 'root',
 })
 export class QuizService {
-  constructor(private verbService: VerbService) {
+  constructor(
+    private verbService: VerbService,
+    private reviewScheduler: ReviewSchedulerService,
+    private historyService: HistoryService,
+    private errorClassifier: ErrorClassifierService,
+    private answerMatcher: AnswerMatcherService,
+    private distractorService: DistractorService,
+    private clozeService: ClozeService,
+    private auxiliaryService: AuxiliaryService,
+    private hintService: HintService,
+    private random: RandomService
+  ) {
     console.log('📝 QuizService initialized');
   }
 
@@ -19,10 +151,43 @@ export class QuizService {
   /**
    * Generate quiz questions based on configuration
    * Returns array of Question objects without user answers
+   * The same config and seed give the same quiz, as long as the verb
+   * data (and, for due-reviews and weak-spots, the history) is unchanged
    */
   generateQuestions(config: TestConfig): Question[] {
     console.log('🎯 Generating questions with config:', config);
 
+    this.random.setSeed(config.seed ?? this.random.createSeed());
+
+    // Table questions cover a paradigm, so they pick verb/tense pairs
+    if (config.questionType === 'table') {
+      return this.generateTableQuestions(config);
+    }
+
+    // Imperatives have their own persons, so tenses/persons don't apply
+    if (config.questionType === 'imperative') {
+      return this.generateImperativeQuestions(config);
+    }
+
+    // Principal parts are asked per verb
+    if (config.questionType === 'principal-parts') {
+      return this.generatePrincipalPartsQuestions(config);
+    }
+
+    // So are auxiliaries, which only depend on the verb (and context)
+    if (config.questionType === 'auxiliary') {
+      return this.generateAuxiliaryQuestions(config);
+    }
+
+    // Weak-spot drills are built from history, not from the selected filters
+    if (config.selectionMode === 'weak-spots') {
+      const weakSpotQuestions = this.generateWeakSpotQuestions(config);
+      if (weakSpotQuestions.length > 0) {
+        return weakSpotQuestions;
+      }
+      console.warn('⚠️ No quiz history for weak spots, using configuration');
+    }
+
     // Validate that we have enough verbs
     if (
       !this.verbService.hasEnoughVerbs(config.questionCount, {
@@ -37,6 +202,357 @@ export class QuizService {
     }
 
     // Get verbs that have all required conjugations
+    const { verbs: quizVerbs, voices } = this.getCellPool(config);
+
+    if (quizVerbs.length === 0) {
+      console.error('❌ No verbs available matching the configuration');
+      return [];
+    }
+
+    console.log(`✅ Found ${quizVerbs.length} verbs matching criteria`);
+
+    // Overdue reviews go first, the rest is drawn by the sampling strategy
+    const dueCells =
+      config.selectionMode === 'due-reviews'
+        ? this.getDueCells(quizVerbs, config, voices).slice(
+            0,
+            config.questionCount
+          )
+        : [];
+    const selectedCombinations = [
+      ...dueCells,
+      ...this.sampleCells(
+        quizVerbs,
+        config,
+        voices,
+        config.questionCount - dueCells.length,
+        dueCells
+      ),
+    ];
+
+    // Generate questions from selected combinations
+    const questions: Question[] = selectedCombinations.map((combo) =>
+      this.createQuestion(
+        combo.verb,
+        combo.tense,
+        combo.person,
+        config,
+        combo.voice
+      )
+    );
+
+    console.log(`✅ Generated ${questions.length} questions`);
+    return questions;
+  }
+
+  /**
+   * Draw verb/tense/person cells with a form by the configured strategy,
+   * without listing every combination
+   * - uniform: every cell is equally likely
+   * - balanced: tenses, persons and verb types come up about equally
+   *   often, and verbs repeat only once all of a type were asked
+   * - one-per-verb: at most one question per verb
+   */
+  private sampleCells(
+    verbs: Verb[],
+    config: TestConfig,
+    voices: Voice[],
+    count: number,
+    taken: QuizCell[] = []
+  ): QuizCell[] {
+    const strategy = config.sampling || 'uniform';
+
+    if (strategy === 'one-per-verb') {
+      return this.sampleOnePerVerb(verbs, config, voices, count, taken);
+    }
+
+    const cells =
+      strategy === 'balanced'
+        ? this.sampleBalanced(verbs, config, voices, count, taken)
+        : [];
+
+    // Uniform draws also fill whatever the balanced decks couldn't
+    return [
+      ...cells,
+      ...this.sampleUniform(verbs, config, voices, count - cells.length, [
+        ...taken,
+        ...cells,
+      ]),
+    ];
+  }
+
+  /**
+   * Draw distinct positions of the verb x tense x voice x person grid
+   * until enough of them have a form (or the grid is used up)
+   */
+  private sampleUniform(
+    verbs: Verb[],
+    config: TestConfig,
+    voices: Voice[],
+    count: number,
+    taken: QuizCell[]
+  ): QuizCell[] {
+    const takenKeys = new Set(taken.map((cell) => this.getQuizCellKey(cell)));
+    const size =
+      verbs.length *
+      config.tenses.length *
+      voices.length *
+      config.persons.length;
+    const drawn = new Set<number>();
+    const cells: QuizCell[] = [];
+
+    while (cells.length < count && drawn.size < size) {
+      const index = this.random.nextInt(size);
+      if (drawn.has(index)) continue;
+      drawn.add(index);
+
+      // Decode the grid position, persons varying fastest
+      let rest = index;
+      const person = config.persons[rest % config.persons.length];
+      rest = Math.floor(rest / config.persons.length);
+      const voice = voices[rest % voices.length];
+      rest = Math.floor(rest / voices.length);
+      const tense = config.tenses[rest % config.tenses.length];
+      const verb = verbs[Math.floor(rest / config.tenses.length)];
+
+      const cell = { verb, tense, person, voice };
+      if (
+        !takenKeys.has(this.getQuizCellKey(cell)) &&
+        this.verbService.getConjugation(verb, tense, person, voice)
+      ) {
+        cells.push(cell);
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Deal tenses, persons and verb types from their own shuffled decks,
+   * then pick a verb of the dealt type that wasn't asked yet
+   */
+  private sampleBalanced(
+    verbs: Verb[],
+    config: TestConfig,
+    voices: Voice[],
+    count: number,
+    taken: QuizCell[]
+  ): QuizCell[] {
+    const verbsByType = new Map<string, Verb[]>();
+    verbs.forEach((verb) =>
+      verbsByType.set(verb.verb_type, [
+        ...(verbsByType.get(verb.verb_type) || []),
+        verb,
+      ])
+    );
+
+    const nextType = this.createDeck(Array.from(verbsByType.keys()));
+    const nextTense = this.createDeck(config.tenses);
+    const nextPerson = this.createDeck(config.persons);
+    const takenKeys = new Set(taken.map((cell) => this.getQuizCellKey(cell)));
+    const usedVerbs = new Set(taken.map((cell) => cell.verb.infinitive));
+    const cells: QuizCell[] = [];
+
+    for (
+      let attempt = 0;
+      cells.length < count && attempt < count * BALANCED_ATTEMPTS;
+      attempt++
+    ) {
+      const typeVerbs = verbsByType.get(nextType())!;
+      const unused = typeVerbs.filter(
+        (verb) => !usedVerbs.has(verb.infinitive)
+      );
+      const cell: QuizCell = {
+        verb: this.pickRandom(unused.length > 0 ? unused : typeVerbs),
+        tense: nextTense(),
+        person: nextPerson(),
+        voice: this.pickRandom(voices),
+      };
+
+      if (
+        !takenKeys.has(this.getQuizCellKey(cell)) &&
+        this.verbService.getConjugation(
+          cell.verb,
+          cell.tense,
+          cell.person,
+          cell.voice
+        )
+      ) {
+        takenKeys.add(this.getQuizCellKey(cell));
+        usedVerbs.add(cell.verb.infinitive);
+        cells.push(cell);
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Ask each verb at most once, in a random tense, voice and person
+   */
+  private sampleOnePerVerb(
+    verbs: Verb[],
+    config: TestConfig,
+    voices: Voice[],
+    count: number,
+    taken: QuizCell[]
+  ): QuizCell[] {
+    const usedVerbs = new Set(taken.map((cell) => cell.verb.infinitive));
+    const candidates = verbs.filter((verb) => !usedVerbs.has(verb.infinitive));
+    const nextVerb = this.createDeck(candidates);
+    const cells: QuizCell[] = [];
+
+    for (let i = 0; i < candidates.length && cells.length < count; i++) {
+      const [cell] = this.sampleUniform([nextVerb()], config, voices, 1, []);
+      if (cell) {
+        cells.push(cell);
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Endless shuffled deck: deals every item once, then reshuffles
+   */
+  private createDeck<T>(items: T[]): () => T {
+    let deck: T[] = [];
+
+    return () => {
+      if (deck.length === 0) {
+        deck = [...items];
+        for (let i = deck.length - 1; i > 0; i--) {
+          const j = this.random.nextInt(i + 1);
+          [deck[i], deck[j]] = [deck[j], deck[i]];
+        }
+      }
+      return deck.pop()!;
+    };
+  }
+
+  private getQuizCellKey(cell: QuizCell): string {
+    return [cell.verb.infinitive, cell.tense, cell.person, cell.voice].join(
+      '|'
+    );
+  }
+
+  /**
+   * Create a provider that hands out the quiz one question at a time
+   * Adaptive quizzes choose each question from the answers so far;
+   * every other mode hands out a generated quiz in order
+   */
+  createQuestionProvider(config: TestConfig): QuestionProvider {
+    const drawsCells = CELL_QUESTION_TYPES.includes(
+      config.questionType || 'typed'
+    );
+
+    if (config.maxMistakes) {
+      const provider = drawsCells ? this.createSurvivalProvider(config) : null;
+
+      if (provider) {
+        return provider;
+      }
+      console.warn('⚠️ Survival mode not available, using configuration');
+    }
+
+    if (config.selectionMode === 'adaptive') {
+      const provider = drawsCells ? this.createAdaptiveProvider(config) : null;
+
+      if (provider) {
+        return provider;
+      }
+      console.warn('⚠️ Adaptive mode not available, using configuration');
+    }
+
+    return this.createFixedProvider(this.generateQuestions(config));
+  }
+
+  /**
+   * Hand out a list of prepared questions in order (also used to
+   * resume a saved quiz with the questions it had)
+   */
+  createFixedProvider(questions: Question[]): QuestionProvider {
+    let index = 0;
+
+    return {
+      adaptive: false,
+      total: questions.length,
+      next: () => questions[index++] || null,
+      recordAnswer: () => {},
+    };
+  }
+
+  /**
+   * Survival provider: an endless stream of cells drawn by the sampling
+   * strategy, repeating only once every cell was asked, that ends when
+   * the allowed number of mistakes is reached
+   * Returns null if no verbs match the configuration
+   */
+  private createSurvivalProvider(config: TestConfig): QuestionProvider | null {
+    const { verbs, voices } = this.getCellPool(config);
+
+    if (verbs.length === 0) {
+      return null;
+    }
+
+    this.random.setSeed(config.seed ?? this.random.createSeed());
+
+    const maxMistakes = config.maxMistakes!;
+    let asked: QuizCell[] = [];
+    let mistakes = 0;
+    let count = 0;
+    let ended = false;
+
+    return {
+      adaptive: false,
+      get total() {
+        return ended ? count : Infinity;
+      },
+      get mistakesLeft() {
+        return Math.max(0, maxMistakes - mistakes);
+      },
+      next: () => {
+        if (ended || mistakes >= maxMistakes) {
+          ended = true;
+          return null;
+        }
+
+        let [cell] = this.sampleCells(verbs, config, voices, 1, asked);
+
+        // Every cell was asked: start over
+        if (!cell && asked.length > 0) {
+          asked = [];
+          [cell] = this.sampleCells(verbs, config, voices, 1, asked);
+        }
+
+        if (!cell) {
+          ended = true;
+          return null;
+        }
+
+        asked.push(cell);
+        count++;
+
+        return this.createQuestion(
+          cell.verb,
+          cell.tense,
+          cell.person,
+          config,
+          cell.voice
+        );
+      },
+      recordAnswer: (question: Question, userAnswer: string) => {
+        if (!this.validateAnswer(question, userAnswer)) {
+          mistakes++;
+        }
+      },
+    };
+  }
+
+  /**
+   * Verbs and voices cell questions can be drawn from
+   */
+  private getCellPool(config: TestConfig): { verbs: Verb[]; voices: Voice[] } {
     const availableVerbs = this.verbService.getVerbsWithConjugations(
       config.tenses,
       config.persons,
@@ -47,94 +563,791 @@ export class QuizService {
       }
     );
 
-    if (availableVerbs.length === 0) {
-      console.error('❌ No verbs available matching the configuration');
+    return {
+      // Clause questions contrast split and joined forms of separable verbs
+      verbs:
+        config.questionType === 'clause'
+          ? availableVerbs.filter((verb) => verb.prefix?.type === 'separable')
+          : availableVerbs,
+      // Reverse and clause questions only use active-voice forms
+      voices:
+        config.questionType === 'reverse' || config.questionType === 'clause'
+          ? ['aktiv']
+          : config.voices || ['aktiv'],
+    };
+  }
+
+  /**
+   * Adaptive provider: a streak of correct answers moves up to harder
+   * verbs and tenses, a mistake moves down a level and re-asks the
+   * missed cell a few questions later
+   * Tenses up to the current level are asked, with verbs of the
+   * nearest difficulty level
+   * Returns null if no verbs match the configuration
+   */
+  private createAdaptiveProvider(config: TestConfig): QuestionProvider | null {
+    const { verbs, voices } = this.getCellPool(config);
+
+    if (verbs.length === 0) {
+      return null;
+    }
+
+    this.random.setSeed(config.seed ?? this.random.createSeed());
+
+    // Levels run over verb and tense difficulties alike, so a quiz
+    // still adapts when all matching verbs share one difficulty level
+    const verbLevels = Array.from(
+      new Set(verbs.map((verb) => verb.difficulty_level))
+    );
+    const levels = Array.from(
+      new Set([
+        ...verbLevels,
+        ...config.tenses.map((tense) => TENSE_DIFFICULTY[tense] || 1),
+      ])
+    ).sort((a, b) => a - b);
+    const easiestTense = [...config.tenses].sort(
+      (a, b) => (TENSE_DIFFICULTY[a] || 1) - (TENSE_DIFFICULTY[b] || 1)
+    )[0];
+
+    const asked = new Set<string>();
+    const retries: Array<{ cell: QuizCell; dueAt: number }> = [];
+    let levelIndex = 0;
+    let streak = 0;
+    let count = 0;
+    let total = config.questionCount;
+
+    // Draw random cells at the current level, without listing every
+    // combination; widen to all verbs and tenses if none is left
+    const pickCell = (): QuizCell | null => {
+      const level = levels[levelIndex];
+      const verbLevel = verbLevels.reduce((nearest, candidate) =>
+        Math.abs(candidate - level) < Math.abs(nearest - level)
+          ? candidate
+          : nearest
+      );
+      const levelTenses = config.tenses.filter(
+        (tense) => (TENSE_DIFFICULTY[tense] || 1) <= level
+      );
+      const pools = [
+        {
+          verbs: verbs.filter((verb) => verb.difficulty_level === verbLevel),
+          tenses: levelTenses.length > 0 ? levelTenses : [easiestTense],
+        },
+        { verbs, tenses: config.tenses },
+      ];
+
+      for (const pool of pools) {
+        for (let i = 0; i < ADAPTIVE_PICK_ATTEMPTS; i++) {
+          const cell: QuizCell = {
+            verb: this.pickRandom(pool.verbs),
+            tense: this.pickRandom(pool.tenses),
+            person: this.pickRandom(config.persons),
+            voice: this.pickRandom(voices),
+          };
+
+          if (
+            !asked.has(this.getQuizCellKey(cell)) &&
+            this.verbService.getConjugation(
+              cell.verb,
+              cell.tense,
+              cell.person,
+              cell.voice
+            )
+          ) {
+            return cell;
+          }
+        }
+      }
+
+      return null;
+    };
+
+    return {
+      adaptive: true,
+      get total() {
+        return total;
+      },
+      next: () => {
+        if (count >= total) {
+          return null;
+        }
+
+        // Missed cells come back once due, or when only they fit
+        const dueIndex = retries.findIndex(
+          (retry) => retry.dueAt <= count || total - count <= retries.length
+        );
+        const fresh = dueIndex === -1 ? pickCell() : null;
+        const retry = fresh
+          ? undefined
+          : retries.splice(Math.max(dueIndex, 0), 1)[0];
+        const cell = fresh || retry?.cell;
+
+        if (!cell) {
+          total = count;
+          return null;
+        }
+
+        asked.add(this.getQuizCellKey(cell));
+        count++;
+
+        return {
+          ...this.createQuestion(
+            cell.verb,
+            cell.tense,
+            cell.person,
+            config,
+            cell.voice
+          ),
+          adaptiveLevel: levels[levelIndex],
+          isRetry: !!retry,
+        };
+      },
+      recordAnswer: (question: Question, userAnswer: string) => {
+        if (this.validateAnswer(question, userAnswer)) {
+          streak++;
+          if (streak >= ADAPTIVE_STREAK && levelIndex < levels.length - 1) {
+            levelIndex++;
+            streak = 0;
+          }
+          return;
+        }
+
+        streak = 0;
+        levelIndex = Math.max(0, levelIndex - 1);
+        retries.push({
+          cell: {
+            verb: question.verb,
+            tense: question.tense,
+            person: question.person,
+            voice: question.voice || 'aktiv',
+          },
+          dueAt: count + ADAPTIVE_RETRY_GAP,
+        });
+      },
+    };
+  }
+
+  /**
+   * Build a quiz concentrated on the verbs, tenses and persons
+   * with the lowest historical accuracy
+   */
+  private generateWeakSpotQuestions(config: TestConfig): Question[] {
+    const profile = this.historyService.getWeakSpotProfile();
+
+    if (profile.totalAnswers === 0) {
       return [];
     }
 
-    console.log(`✅ Found ${availableVerbs.length} verbs matching criteria`);
+    // Smoothed error rate, so rarely practiced items aren't over-weighted
+    const errorRate = (stat?: {
+      totalQuestions: number;
+      correctAnswers: number;
+    }) =>
+      stat
+        ? (stat.totalQuestions - stat.correctAnswers + 1) /
+          (stat.totalQuestions + 2)
+        : 0.5;
 
-    // Generate all possible combinations
-    const allCombinations: Array<{
-      verb: any;
+    const candidates: Array<{
+      verb: Verb;
       tense: string;
       person: string;
+      weight: number;
     }> = [];
 
-    for (const verb of availableVerbs) {
-      for (const tense of config.tenses) {
-        for (const person of config.persons) {
-          // Verify this combination has a valid conjugation
-          const conjugation = this.verbService.getConjugation(
+    // Only weak spots within the configured verbs, tenses and persons
+    const allowedVerbs = new Set(
+      this.verbService
+        .getVerbs({
+          verbTypes: config.verbTypes as VerbType[],
+          difficultyLevels: config.difficultyLevels,
+          infinitives: config.specificVerbs,
+        })
+        .map((verb) => verb.infinitive)
+    );
+    const tenses = Object.keys(profile.byTense).filter((tense) =>
+      config.tenses.includes(tense)
+    );
+    const persons = Object.keys(profile.byPerson).filter((person) =>
+      config.persons.includes(person)
+    );
+
+    Object.keys(profile.byVerb).forEach((infinitive) => {
+      const verb = this.verbService.getVerbByInfinitive(infinitive);
+      if (!verb || !allowedVerbs.has(infinitive)) {
+        return;
+      }
+
+      tenses.forEach((tense) => {
+        persons.forEach((person) => {
+          if (!this.verbService.getConjugation(verb, tense, person)) {
+            return;
+          }
+
+          candidates.push({
             verb,
             tense,
-            person
-          );
-          if (conjugation) {
-            allCombinations.push({ verb, tense, person });
-          }
-        }
+            person,
+            weight:
+              errorRate(profile.byVerb[infinitive]) +
+              errorRate(profile.byTense[tense]) +
+              errorRate(profile.byPerson[person]),
+          });
+        });
+      });
+    });
+
+    // Weighted sampling without replacement: weaker cells are more likely,
+    // but the drill still varies between runs
+    const selected = candidates
+      .map((candidate) => ({
+        candidate,
+        key: Math.pow(this.random.next(), 1 / candidate.weight),
+      }))
+      .sort((a, b) => b.key - a.key)
+      .slice(0, config.questionCount)
+      .map(({ candidate }) => candidate);
+
+    console.log(
+      `🎯 Generated ${selected.length} weak-spot questions from ${candidates.length} candidates`
+    );
+
+    return selected.map((combo) =>
+      this.createQuestion(combo.verb, combo.tense, combo.person, config)
+    );
+  }
+
+  /**
+   * Build one full-paradigm question per verb/tense pair
+   */
+  private generateTableQuestions(config: TestConfig): Question[] {
+    // Rows of the selected persons, in paradigm order
+    const persons = TABLE_PERSONS.filter((person) =>
+      config.persons.includes(person)
+    );
+    const availableVerbs = this.verbService.getVerbsWithConjugations(
+      config.tenses,
+      persons,
+      {
+        verbTypes: config.verbTypes as VerbType[],
+        difficultyLevels: config.difficultyLevels,
+        infinitives: config.specificVerbs,
       }
+    );
+
+    const pairs: Array<{ verb: Verb; tense: string }> = [];
+    availableVerbs.forEach((verb) =>
+      config.tenses.forEach((tense) => pairs.push({ verb, tense }))
+    );
+
+    // Shuffle using Fisher-Yates
+    for (let i = pairs.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [pairs[i], pairs[j]] = [pairs[j], pairs[i]];
     }
 
-    // Shuffle all combinations using Fisher-Yates
-    for (let i = allCombinations.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [allCombinations[i], allCombinations[j]] = [
-        allCombinations[j],
-        allCombinations[i],
-      ];
+    const questions = pairs
+      .slice(0, config.questionCount)
+      .map(({ verb, tense }) =>
+        this.createTableQuestion(verb, tense, persons, config)
+      );
+
+    console.log(`✅ Generated ${questions.length} table questions`);
+    return questions;
+  }
+
+  /**
+   * Build imperative questions for du, ihr, wir and Sie
+   */
+  private generateImperativeQuestions(config: TestConfig): Question[] {
+    const combinations: Array<{ verb: Verb; person: ImperativePerson }> = [];
+
+    this.verbService
+      .getVerbs({
+        verbTypes: config.verbTypes as VerbType[],
+        difficultyLevels: config.difficultyLevels,
+        infinitives: config.specificVerbs,
+      })
+      .filter((verb) => this.verbService.getImperative(verb))
+      .forEach((verb) =>
+        IMPERATIVE_PERSONS.forEach((person) =>
+          combinations.push({ verb, person })
+        )
+      );
+
+    // Shuffle using Fisher-Yates
+    for (let i = combinations.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [combinations[i], combinations[j]] = [combinations[j], combinations[i]];
     }
 
-    // Take the first N combinations
-    const actualQuestionCount = Math.min(
-      config.questionCount,
-      allCombinations.length
+    const questions = combinations
+      .slice(0, config.questionCount)
+      .map(({ verb, person }) =>
+        this.createImperativeQuestion(verb, person, config)
+      );
+
+    console.log(`✅ Generated ${questions.length} imperative questions`);
+    return questions;
+  }
+
+  /**
+   * Create a question asking for one imperative form
+   */
+  private createImperativeQuestion(
+    verb: Verb,
+    person: ImperativePerson,
+    config: TestConfig
+  ): Question {
+    const forms = this.verbService.getImperative(verb)!;
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense: IMPERATIVE_TENSE,
+      person,
+      correctAnswer: forms[person],
+      acceptedAnswers:
+        person === 'du' && forms.duAlternative
+          ? [forms.duAlternative]
+          : undefined,
+      questionText: this.generateImperativeText(verb, person),
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'imperative',
+    };
+  }
+
+  /**
+   * Build one principal parts question per verb
+   */
+  private generatePrincipalPartsQuestions(config: TestConfig): Question[] {
+    const verbs = this.verbService
+      .getVerbs({
+        verbTypes: config.verbTypes as VerbType[],
+        difficultyLevels: config.difficultyLevels,
+        infinitives: config.specificVerbs,
+      })
+      .filter((verb) => this.verbService.getPrincipalParts(verb));
+
+    // Shuffle using Fisher-Yates
+    for (let i = verbs.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [verbs[i], verbs[j]] = [verbs[j], verbs[i]];
+    }
+
+    const questions = verbs
+      .slice(0, config.questionCount)
+      .map((verb) => this.createPrincipalPartsQuestion(verb, config));
+
+    console.log(`✅ Generated ${questions.length} principal parts questions`);
+    return questions;
+  }
+
+  /**
+   * Create a question asking for präteritum, Partizip II and
+   * auxiliary at once, each graded as its own cell
+   */
+  private createPrincipalPartsQuestion(
+    verb: Verb,
+    config: TestConfig
+  ): Question {
+    const parts = this.verbService.getPrincipalParts(verb)!;
+    const cells: TableCell[] = PRINCIPAL_PARTS.map((part) => ({
+      person: 'er',
+      part,
+      correctAnswer: parts[part],
+      acceptedAnswers:
+        part === 'auxiliary' && AUXILIARY_INFINITIVES[parts.auxiliary]
+          ? [AUXILIARY_INFINITIVES[parts.auxiliary]]
+          : undefined,
+    }));
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense: PRINCIPAL_PARTS_TENSE,
+      person: 'er',
+      correctAnswer: cells.map((cell) => cell.correctAnswer).join(', '),
+      questionText: `Give the principal parts of "${this.getDisplayInfinitive(verb)}" (${verb.english_translation}): er ___, er ___ ___`,
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'principal-parts',
+      cells,
+    };
+  }
+
+  /**
+   * Build haben/sein questions, one per verb
+   * Verbs that take both are asked in one of their context sentences
+   */
+  private generateAuxiliaryQuestions(config: TestConfig): Question[] {
+    const verbs = this.verbService
+      .getVerbs({
+        verbTypes: config.verbTypes as VerbType[],
+        difficultyLevels: config.difficultyLevels,
+        infinitives: config.specificVerbs,
+      })
+      .filter((verb) => this.auxiliaryService.getAuxiliary(verb));
+
+    // Shuffle using Fisher-Yates
+    for (let i = verbs.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [verbs[i], verbs[j]] = [verbs[j], verbs[i]];
+    }
+
+    // Most verbs take haben, so alternate with sein verbs while they last
+    const seinVerbs = verbs.filter(
+      (verb) => this.auxiliaryService.getAuxiliary(verb) === 'sein'
     );
-    const selectedCombinations = allCombinations.slice(0, actualQuestionCount);
+    const habenVerbs = verbs.filter((verb) => !seinVerbs.includes(verb));
+    const picked: Verb[] = [];
 
-    // Generate questions from selected combinations
-    const questions: Question[] = selectedCombinations.map((combo) => {
-      const correctAnswer = this.verbService.getConjugation(
-        combo.verb,
-        combo.tense,
-        combo.person
-      )!;
+    while (
+      picked.length < config.questionCount &&
+      (seinVerbs.length > 0 || habenVerbs.length > 0)
+    ) {
+      const pool =
+        (picked.length % 2 === 0 && seinVerbs.length > 0) ||
+        habenVerbs.length === 0
+          ? seinVerbs
+          : habenVerbs;
+      picked.push(pool.shift()!);
+    }
 
-      return {
-        id: uuidv4(),
-        verb: combo.verb,
-        tense: combo.tense,
-        person: combo.person,
-        correctAnswer,
-        questionText: this.generateQuestionText(
-          combo.verb,
-          combo.tense,
-          combo.person
-        ),
-      };
+    // Shuffle again, so the alternation isn't predictable
+    for (let i = picked.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [picked[i], picked[j]] = [picked[j], picked[i]];
+    }
+
+    const questions = picked.map((verb) => {
+      const contexts = this.auxiliaryService.getContexts(verb);
+      const context =
+        contexts.length > 0 ? this.pickRandom(contexts) : undefined;
+
+      return this.createAuxiliaryQuestion(verb, config, context);
     });
 
-    console.log(`✅ Generated ${questions.length} questions`);
+    console.log(`✅ Generated ${questions.length} auxiliary questions`);
     return questions;
   }
 
+  /**
+   * Create a two-option question: does the verb take haben or sein?
+   */
+  private createAuxiliaryQuestion(
+    verb: Verb,
+    config: TestConfig,
+    context?: AuxiliaryContext
+  ): Question {
+    const auxiliary =
+      context?.auxiliary || this.auxiliaryService.getAuxiliary(verb)!;
+    const alternative = verb.alternative_auxiliary?.auxiliary;
+    const auxiliaries: Auxiliary[] = ['haben', 'sein'];
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense: AUXILIARY_TENSE,
+      person: 'er',
+      correctAnswer: auxiliary,
+      // Without a sentence, either auxiliary of a two-auxiliary verb is right
+      acceptedAnswers:
+        !context && alternative && alternative !== auxiliary
+          ? [alternative]
+          : undefined,
+      questionText: context
+        ? `haben or sein? ${this.auxiliaryService.gapSentence(context.sentence)} (${verb.infinitive})`
+        : `haben or sein? Perfekt of "${this.getDisplayInfinitive(verb)}" (${verb.english_translation})`,
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'auxiliary',
+      options: auxiliaries.map((option) => ({
+        text: option,
+        source: option === auxiliary ? 'correct' : 'other-auxiliary',
+      })),
+      sentence: context?.sentence,
+      explanation: this.auxiliaryService.explain(verb, auxiliary, context),
+    };
+  }
+
+  /**
+   * Describe a situation that calls for the imperative
+   * (e.g. "Tell your friend to open (öffnen)")
+   */
+  private generateImperativeText(verb: Verb, person: ImperativePerson): string {
+    const action = verb.english_translation
+      .split(/[,;/]/)[0]
+      .trim()
+      .replace(/^to /, '');
+
+    const situations: Record<ImperativePerson, string> = {
+      du: `Tell your friend to ${action}`,
+      ihr: `Tell your friends to ${action}`,
+      wir: `Suggest to your group: "Let's ${action}!"`,
+      Sie: `Politely ask your neighbour to ${action}`,
+    };
+
+    return `${situations[person]} (${this.getDisplayInfinitive(verb)}, ${person})`;
+  }
+
+  /**
+   * Create a question asking for the given persons of one tense
+   */
+  private createTableQuestion(
+    verb: Verb,
+    tense: string,
+    persons: string[],
+    config: TestConfig
+  ): Question {
+    const cells: TableCell[] = persons.map((person) => ({
+      person,
+      correctAnswer: this.verbService.getConjugation(verb, tense, person)!,
+    }));
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense,
+      person: 'all',
+      correctAnswer: cells.map((cell) => cell.correctAnswer).join(', '),
+      questionText: `Fill in the ${TENSE_LABELS[tense] || tense} table of "${this.getDisplayInfinitive(verb)}" (${verb.english_translation})`,
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'table',
+      cells,
+    };
+  }
+
+  /**
+   * Create a question for a single verb/tense/person combination
+   */
+  private createQuestion(
+    verb: Verb,
+    tense: string,
+    person: string,
+    config: TestConfig,
+    voice: Voice = 'aktiv'
+  ): Question {
+    const correctAnswer = this.verbService.getConjugation(
+      verb,
+      tense,
+      person,
+      voice
+    )!;
+    const questionType = config.questionType || 'typed';
+
+    if (questionType === 'cloze') {
+      return this.createClozeQuestion(
+        verb,
+        tense,
+        person,
+        correctAnswer,
+        config,
+        voice
+      );
+    }
+
+    if (questionType === 'clause') {
+      return this.createClauseQuestion(verb, tense, person, config);
+    }
+
+    if (questionType === 'reverse') {
+      return this.createReverseQuestion(
+        verb,
+        tense,
+        person,
+        correctAnswer,
+        config
+      );
+    }
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense,
+      person,
+      voice: voice !== 'aktiv' ? voice : undefined,
+      correctAnswer,
+      questionText: this.generateQuestionText(verb, tense, person, voice),
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType,
+      options:
+        questionType === 'multiple-choice'
+          ? this.distractorService.generateOptions(
+              verb,
+              tense,
+              person,
+              correctAnswer
+            )
+          : undefined,
+    };
+  }
+
+  /**
+   * Create a question that embeds the verb in a sentence
+   * Falls back to the plain prompt if no template fits
+   */
+  private createClozeQuestion(
+    verb: Verb,
+    tense: string,
+    person: string,
+    correctAnswer: string,
+    config: TestConfig,
+    voice: Voice = 'aktiv'
+  ): Question {
+    // Separable verbs are split in the main clause of a template,
+    // also where the data keeps them joined (abfasse)
+    const prefix = verb.prefix?.type === 'separable' ? verb.prefix.prefix : '';
+    const answer =
+      (voice === 'aktiv' &&
+        this.verbService.getClauseForms(verb, tense, person)?.main) ||
+      correctAnswer;
+
+    // Sentence templates are written for the active voice
+    const cloze =
+      voice === 'aktiv'
+        ? this.clozeService.buildCloze(verb, tense, person, answer)
+        : null;
+    const separated = !!cloze && !!prefix && answer.endsWith(` ${prefix}`);
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense,
+      person,
+      voice: voice !== 'aktiv' ? voice : undefined,
+      correctAnswer: cloze ? answer : correctAnswer,
+      questionText:
+        cloze?.prompt || this.generateQuestionText(verb, tense, person, voice),
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'cloze',
+      sentence: cloze?.sentence,
+      // Gaps may also be separated as written ("hole ... ab")
+      acceptedAnswers: separated
+        ? [answer.replace(/ (\S+)$/, ' ... $1')]
+        : undefined,
+    };
+  }
+
+  /**
+   * Create a question asking for a separable verb in a main clause
+   * (split: "rufe ... an") or a subordinate clause (joined: "anrufe")
+   */
+  private createClauseQuestion(
+    verb: Verb,
+    tense: string,
+    person: string,
+    config: TestConfig
+  ): Question {
+    const forms = this.verbService.getClauseForms(verb, tense, person)!;
+    const clause: ClauseType =
+      this.random.next() < 0.5 ? 'main' : 'subordinate';
+    const correctAnswer = clause === 'main' ? forms.main : forms.subordinate;
+    const cloze = this.clozeService.buildClause(
+      verb,
+      tense,
+      person,
+      clause,
+      correctAnswer
+    );
+    const clauseLabel =
+      clause === 'main' ? 'main clause' : 'subordinate clause';
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense,
+      person,
+      correctAnswer,
+      questionText: `${cloze.prompt}: ${TENSE_LABELS[tense] || tense}, ${clauseLabel}`,
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'clause',
+      sentence: cloze.sentence,
+      clause,
+      // Gaps may also be separated as written ("rufe ... an")
+      acceptedAnswers:
+        clause === 'main' ? [correctAnswer.replace(' ', ' ... ')] : undefined,
+    };
+  }
+
+  /**
+   * Create a question that shows a conjugated form and asks for
+   * its infinitive, tense and person
+   */
+  private createReverseQuestion(
+    verb: Verb,
+    tense: string,
+    person: string,
+    form: string,
+    config: TestConfig
+  ): Question {
+    const reading: FormReading = { verb: verb.infinitive, tense, person };
+    const acceptedReadings = this.verbService.getReadingsForForm(form);
+
+    return {
+      id: uuidv4(),
+      verb,
+      tense,
+      person,
+      correctAnswer: this.formatReading(reading),
+      questionText: `Identify the infinitive, tense and person of "${form}"`,
+      answerStrictness: config.answerStrictness || 'strict',
+      questionType: 'reverse',
+      shownForm: form,
+      acceptedReadings:
+        acceptedReadings.length > 0 ? acceptedReadings : [reading],
+    };
+  }
+
+  /**
+   * Overdue active-voice cells matching the configuration, most
+   * overdue first
+   */
+  private getDueCells(
+    verbs: Verb[],
+    config: TestConfig,
+    voices: Voice[]
+  ): QuizCell[] {
+    // Scheduled cells are active-voice forms
+    if (!voices.includes('aktiv')) {
+      return [];
+    }
+
+    const verbsByInfinitive = new Map(
+      verbs.map((verb) => [verb.infinitive, verb])
+    );
+
+    const due = this.reviewScheduler
+      .getDueItems()
+      .filter(
+        (item) =>
+          config.tenses.includes(item.tense) &&
+          config.persons.includes(item.person)
+      )
+      .map((item) => ({
+        verb: verbsByInfinitive.get(item.verb)!,
+        tense: item.tense,
+        person: item.person,
+        voice: 'aktiv' as Voice,
+      }))
+      .filter(
+        (cell) =>
+          cell.verb &&
+          this.verbService.getConjugation(cell.verb, cell.tense, cell.person)
+      );
+
+    console.log(`🔁 ${due.length} overdue review(s) matching configuration`);
+
+    return due;
+  }
+
   /**
    * Generate human-readable question text
    */
   private generateQuestionText(
     verb: any,
     tense: string,
-    person: string
+    person: string,
+    voice: Voice = 'aktiv'
   ): string {
-    const tenseLabels: Record<string, string> = {
-      präsens: 'Present',
-      präteritum: 'Simple Past',
-      perfekt: 'Present Perfect',
-      plusquamperfekt: 'Past Perfect',
-      futur: 'Future',
-    };
-
     const personLabels: Record<string, string> = {
       ich: 'I',
       du: 'you (informal)',
@@ -144,55 +1357,223 @@ export class QuizService {
       sie: 'they/you (formal)',
     };
 
-    const tenseLabel = tenseLabels[tense] || tense;
+    const tenseLabel =
+      voice === 'aktiv'
+        ? TENSE_LABELS[tense] || tense
+        : `${TENSE_LABELS[tense] || tense} ${VOICE_LABELS[voice]}`;
     const personLabel = personLabels[person] || person;
 
-    return `Conjugate "${verb.infinitive}" (${verb.english_translation}) in ${tenseLabel} for "${personLabel}" (${person})`;
+    // Reflexive verbs show the pronoun slot and its case
+    const personSlot = verb.reflexive
+      ? `${person} … + ${verb.reflexive_case || 'accusative'} pronoun`
+      : person;
+
+    return `Conjugate "${this.getDisplayInfinitive(verb)}" (${verb.english_translation}) in ${tenseLabel} for "${personLabel}" (${personSlot})`;
+  }
+
+  /**
+   * Infinitive as learners know it ("sich waschen")
+   */
+  private getDisplayInfinitive(verb: Verb): string {
+    return verb.reflexive ? `sich ${verb.infinitive}` : verb.infinitive;
   }
 
   /**
    * Validate a single answer against the question
    */
   validateAnswer(question: Question, userAnswer: string): boolean {
-    const normalized = this.normalizeAnswer(userAnswer);
-    const correctNormalized = this.normalizeAnswer(question.correctAnswer);
+    return this.matchAnswer(question, userAnswer).isCorrect;
+  }
 
-    return normalized === correctNormalized;
+  /**
+   * Match an answer using the question's strictness profile
+   * Reports whether it was accepted only under a lenient rule
+   */
+  matchAnswer(question: Question, userAnswer: string): AnswerMatch {
+    if (question.questionType === 'reverse') {
+      return this.matchReading(question, userAnswer);
+    }
+
+    const matches = [
+      question.correctAnswer,
+      ...(question.acceptedAnswers || []),
+    ]
+      .map((answer) =>
+        this.answerMatcher.match(userAnswer, answer, question.answerStrictness)
+      )
+      .filter((match) => match.isCorrect);
+
+    return (
+      matches.find((match) => !match.acceptedLeniently) ||
+      matches[0] || { isCorrect: false, acceptedLeniently: false }
+    );
+  }
+
+  /**
+   * Match a reverse answer against every valid reading of the form
+   * (e.g. "fahren" for wir or sie), preferring an exact match
+   */
+  private matchReading(question: Question, userAnswer: string): AnswerMatch {
+    const userReading = this.parseReading(userAnswer);
+    const noMatch: AnswerMatch = { isCorrect: false, acceptedLeniently: false };
+
+    if (!userReading) {
+      return noMatch;
+    }
+
+    const matches = (question.acceptedReadings || [])
+      .filter(
+        (reading) =>
+          reading.tense === userReading.tense &&
+          reading.person === userReading.person
+      )
+      .map((reading) =>
+        this.answerMatcher.match(
+          userReading.verb,
+          reading.verb,
+          question.answerStrictness
+        )
+      )
+      .filter((match) => match.isCorrect);
+
+    return (
+      matches.find((match) => !match.acceptedLeniently) || matches[0] || noMatch
+    );
+  }
+
+  /**
+   * Format a reading as an answer string ("fahren · präteritum · er")
+   */
+  formatReading(reading: FormReading): string {
+    return [reading.verb, reading.tense, reading.person].join(
+      READING_SEPARATOR
+    );
+  }
+
+  /**
+   * Parse an answer string back into a reading
+   */
+  parseReading(answer: string): FormReading | null {
+    const parts = answer.split(READING_SEPARATOR.trim()).map((p) => p.trim());
+
+    if (parts.length !== 3 || parts.some((p) => !p)) {
+      return null;
+    }
+
+    const [verb, tense, person] = parts;
+    return { verb, tense, person };
+  }
+
+  /**
+   * List every valid reading of a reverse question's form
+   */
+  describeReadings(question: Question): string {
+    const readings = (question.acceptedReadings || [])
+      .map((reading) => this.formatReading(reading))
+      .join(', ');
+
+    return `"${question.shownForm}" can be: ${readings}`;
+  }
+
+  /**
+   * Get tenses to choose from when identifying a form
+   */
+  getReadingTenses(): string[] {
+    return this.verbService.getAvailableTenses();
+  }
+
+  /**
+   * Key under which a table cell's answer is stored
+   */
+  getCellAnswerKey(questionId: string, cell: TableCell): string {
+    return `${questionId}:${this.getCellKey(cell)}`;
+  }
+
+  /**
+   * Identify a cell within its question (person, or principal part)
+   */
+  getCellKey(cell: TableCell): string {
+    return cell.part || cell.person;
+  }
+
+  /**
+   * Get the label shown next to a cell's input
+   */
+  getCellLabel(cell: TableCell): string {
+    return cell.part ? PRINCIPAL_PART_LABELS[cell.part] : cell.person;
+  }
+
+  /**
+   * View a table cell as a single-person question, so matching and
+   * error classification work per cell
+   */
+  getCellQuestion(question: Question, cell: TableCell): Question {
+    return {
+      ...question,
+      tense: cell.part ? PRINCIPAL_PART_TENSES[cell.part] : question.tense,
+      person: cell.person,
+      correctAnswer: cell.correctAnswer,
+      acceptedAnswers: cell.acceptedAnswers,
+      questionType: 'typed',
+      cells: undefined,
+      principalPart: cell.part,
+    };
   }
 
   /**
    * Normalize answer string for comparison
-   * Handles case, whitespace, and special characters
    */
   private normalizeAnswer(answer: string): string {
-    return answer
-      .toLowerCase()
-      .trim()
-      .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-      .replace(/[.,!?;:]/g, ''); // Remove punctuation
+    return this.answerMatcher.normalize(answer);
   }
 
   /**
    * Score the entire quiz
    * Returns QuizResult with all questions, scores, and statistics
+   * score stays the count of correct answers; a correct answer loses
+   * hintPenalty points per hint level used in adjustedScore
    */
   scoreQuiz(
     questions: Question[],
     userAnswers: Map<string, string>,
-    startTime?: Date
+    startTime?: Date,
+    hintPenalty: number = 0
   ): QuizResult {
     console.log('📊 Scoring quiz...');
 
+    // Points for one correct answer after the hint penalty
+    const points = (question: Question) =>
+      Math.max(0, 1 - hintPenalty * (question.hintLevel || 0));
+
     let correctCount = 0;
+    let adjustedScore = 0;
     const scoredQuestions: Question[] = [];
 
+    let totalQuestions = 0;
+
     // Score each question
     questions.forEach((question) => {
+      if (question.cells) {
+        const scoredTable = this.scoreTableQuestion(question, userAnswers);
+        const correctCells = scoredTable.cells!.filter((c) => c.isCorrect);
+
+        correctCount += correctCells.length;
+        adjustedScore += correctCells.length * points(question);
+        totalQuestions += scoredTable.cells!.length;
+        scoredQuestions.push(scoredTable);
+        return;
+      }
+
+      totalQuestions++;
       const userAnswer = userAnswers.get(question.id) || '';
-      const isCorrect = this.validateAnswer(question, userAnswer);
+      const { isCorrect, acceptedLeniently } = this.matchAnswer(
+        question,
+        userAnswer
+      );
 
       if (isCorrect) {
         correctCount++;
+        adjustedScore += points(question);
       }
 
       // Create scored question
@@ -200,15 +1581,21 @@ export class QuizService {
         ...question,
         userAnswer,
         isCorrect,
+        acceptedLeniently,
+        errorCategory: isCorrect
+          ? undefined
+          : this.classifyAnswer(question, userAnswer)?.category,
+        selectedOptionSource: question.options?.find(
+          (option) => option.text === userAnswer
+        )?.source,
       };
 
       scoredQuestions.push(scoredQuestion);
     });
 
-    // Calculate statistics
-    const totalQuestions = questions.length;
+    // Calculate statistics (table cells count individually)
     const percentage =
-      totalQuestions > 0 ? (correctCount / totalQuestions) * 100 : 0;
+      totalQuestions > 0 ? (adjustedScore / totalQuestions) * 100 : 0;
 
     // Calculate duration if start time provided
     let duration: number | undefined;
@@ -220,6 +1607,7 @@ export class QuizService {
     const result: QuizResult = {
       questions: scoredQuestions,
       score: correctCount,
+      adjustedScore: Math.round(adjustedScore * 100) / 100,
       totalQuestions,
       percentage: Math.round(percentage * 100) / 100, // Round to 2 decimal places
       duration,
@@ -234,32 +1622,180 @@ export class QuizService {
   }
 
   /**
-   * Get a hint for a question
-   * Returns the first letter(s) of the correct answer
+   * Grade every cell of a table question
+   * The question counts as correct only when all cells are
+   */
+  private scoreTableQuestion(
+    question: Question,
+    userAnswers: Map<string, string>
+  ): Question {
+    const cells: TableCell[] = question.cells!.map((cell) => {
+      const userAnswer =
+        userAnswers.get(this.getCellAnswerKey(question.id, cell)) || '';
+      const cellQuestion = this.getCellQuestion(question, cell);
+      const { isCorrect, acceptedLeniently } = this.matchAnswer(
+        cellQuestion,
+        userAnswer
+      );
+
+      return {
+        ...cell,
+        userAnswer,
+        isCorrect,
+        acceptedLeniently,
+        errorCategory: isCorrect
+          ? undefined
+          : this.classifyAnswer(cellQuestion, userAnswer)?.category,
+      };
+    });
+
+    return {
+      ...question,
+      cells,
+      userAnswer: cells.map((cell) => cell.userAnswer).join(', '),
+      isCorrect: cells.every((cell) => cell.isCorrect),
+    };
+  }
+
+  /**
+   * Get a hint for a question from the hint ladder
+   * (1 rule, 2 stem, 3 ending pattern, 4 first letters)
+   * Tables state the rule once and give the other levels per cell
    */
   getHint(question: Question, level: number = 1): string {
-    const answer = question.correctAnswer;
-    const revealLength = Math.min(level, Math.floor(answer.length / 2));
+    if (!question.cells) {
+      return this.hintService.getHint(question, level);
+    }
 
-    return answer.substring(0, revealLength) + '...';
+    const cellQuestions = question.cells.map((cell) =>
+      this.getCellQuestion(question, cell)
+    );
+
+    if (level <= 1) {
+      const rules = cellQuestions.flatMap((q) => this.hintService.getRules(q));
+      return Array.from(new Set(rules)).join(', ');
+    }
+
+    return question.cells
+      .map(
+        (cell, i) =>
+          `${this.getCellLabel(cell)}: ${this.hintService.getHint(cellQuestions[i], level)}`
+      )
+      .join(', ');
   }
 
   /**
-   * Check if answer is partially correct (useful for feedback)
+   * Classify a wrong answer (missing umlaut, wrong auxiliary, ...)
+   * Returns null if the answer is empty or correct
    */
-  isPartiallyCorrect(question: Question, userAnswer: string): boolean {
-    const normalized = this.normalizeAnswer(userAnswer);
-    const correctNormalized = this.normalizeAnswer(question.correctAnswer);
+  classifyAnswer(
+    question: Question,
+    userAnswer: string
+  ): AnswerClassification | null {
+    // Error categories describe conjugation mistakes only
+    if (question.questionType === 'reverse') {
+      return null;
+    }
+
+    // The other clause's word order (anrufe vs. rufe an)
+    if (question.questionType === 'clause') {
+      const forms = this.verbService.getClauseForms(
+        question.verb,
+        question.tense,
+        question.person
+      );
+      const otherForm =
+        question.clause === 'main' ? forms?.subordinate : forms?.main;
 
-    if (normalized.length < 2) {
-      return false;
+      if (
+        otherForm &&
+        this.normalizeAnswer(userAnswer) === this.normalizeAnswer(otherForm)
+      ) {
+        return {
+          category: 'separable-prefix',
+          explanation:
+            question.clause === 'main'
+              ? `In a main clause the finite verb comes second and the prefix goes to the end: "${question.correctAnswer}".`
+              : `In a subordinate clause the verb goes to the end, with the prefix attached: "${question.correctAnswer}".`,
+        };
+      }
     }
 
-    // Check if user answer starts with correct answer or vice versa
-    return (
-      correctNormalized.startsWith(normalized) ||
-      normalized.startsWith(correctNormalized)
+    // Auxiliary questions explain the rule behind the right choice
+    if (question.questionType === 'auxiliary') {
+      return this.normalizeAnswer(userAnswer) &&
+        !this.validateAnswer(question, userAnswer)
+        ? {
+            category: 'wrong-auxiliary',
+            explanation:
+              question.explanation ||
+              `"${question.verb.infinitive}" takes ${question.correctAnswer}.`,
+          }
+        : null;
+    }
+
+    // A principal part's participle is given without its auxiliary
+    if (
+      question.principalPart === 'partizip' &&
+      this.normalizeAnswer(userAnswer) &&
+      this.normalizeAnswer(userAnswer) !==
+        this.normalizeAnswer(question.correctAnswer)
+    ) {
+      return {
+        category: 'wrong-participle',
+        explanation: `The past participle of "${question.verb.infinitive}" is "${question.correctAnswer}".`,
+      };
+    }
+
+    // Reflexive verbs: a wrong pronoun is told apart from a wrong form
+    const pronoun = this.verbService.getReflexivePronoun(
+      question.verb,
+      question.person
     );
+    if (pronoun) {
+      const given = this.splitReflexivePronoun(userAnswer);
+      const expected = this.splitReflexivePronoun(question.correctAnswer);
+
+      if (given.pronoun === expected.pronoun) {
+        return this.errorClassifier.classify(
+          question,
+          given.form,
+          expected.form
+        );
+      }
+
+      if (given.form === expected.form) {
+        return {
+          category: 'reflexive-pronoun',
+          explanation: given.pronoun
+            ? `Right verb form, but "${question.person}" takes the ${question.verb.reflexive_case || 'accusative'} pronoun "${pronoun}", not "${given.pronoun}".`
+            : `"${this.getDisplayInfinitive(question.verb)}" is reflexive: the answer needs the pronoun "${pronoun}".`,
+        };
+      }
+    }
+
+    return this.errorClassifier.classify(
+      question,
+      this.normalizeAnswer(userAnswer),
+      this.normalizeAnswer(question.correctAnswer)
+    );
+  }
+
+  /**
+   * Separate a reflexive pronoun from the verb form of an answer
+   * ("wasche mich" -> mich + "wasche")
+   */
+  private splitReflexivePronoun(answer: string): {
+    pronoun?: string;
+    form: string;
+  } {
+    const words = this.normalizeAnswer(answer).split(' ');
+    const pronoun = words.find((word) => REFLEXIVE_PRONOUN_WORDS.has(word));
+
+    return {
+      pronoun,
+      form: words.filter((word) => word !== pronoun).join(' '),
+    };
   }
 
   /**
@@ -279,7 +1815,7 @@ export class QuizService {
    * Helper method to pick random element from array
    */
   private pickRandom<T>(array: T[]): T {
-    const index = Math.floor(Math.random() * array.length);
+    const index = this.random.nextInt(array.length);
     return array[index];
   }
 
@@ -312,6 +1848,13 @@ export class QuizService {
       errors.push('Question count cannot exceed 100');
     }
 
+    if (
+      config.maxMistakes &&
+      !CELL_QUESTION_TYPES.includes(config.questionType || 'typed')
+    ) {
+      errors.push('Survival mode needs questions about one form at a time');
+    }
+
     // Check if enough verbs are available
     const availableVerbs = this.verbService.getVerbsWithConjugations(
       config.tenses,
@@ -325,12 +1868,44 @@ export class QuizService {
 
     if (availableVerbs.length === 0) {
       errors.push('No verbs available matching the selected criteria');
-    } else if (availableVerbs.length < config.questionCount) {
+    } else if (
+      !config.maxMistakes &&
+      availableVerbs.length < config.questionCount
+    ) {
       errors.push(
         `Only ${availableVerbs.length} verbs available, but ${config.questionCount} questions requested`
       );
     }
 
+    if (
+      availableVerbs.length > 0 &&
+      CELL_QUESTION_TYPES.includes(config.questionType || 'typed')
+    ) {
+      const { verbs, voices } = this.getCellPool(config);
+
+      // Clause questions need the prefix of a separable verb
+      if (verbs.length === 0 && config.questionType === 'clause') {
+        errors.push(
+          'No separable verbs with prefix metadata match the selected criteria'
+        );
+      }
+
+      // Passive forms are only derived for verbs flagged transitive
+      voices
+        .filter(
+          (voice) =>
+            voice !== 'aktiv' &&
+            !verbs.some((verb) =>
+              this.verbService.hasVoice(verb, voice, config.tenses)
+            )
+        )
+        .forEach((voice) =>
+          errors.push(
+            `No selected verb has ${voice} forms in the selected tenses (verbs must be marked transitive)`
+          )
+        );
+    }
+
     return {
       valid: errors.length === 0,
       errors,
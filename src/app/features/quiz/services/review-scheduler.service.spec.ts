@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { Answer } from '../../../core/models';
+import { StorageService } from '../../../core/services/storage.service';
+import { ReviewSchedulerService } from './review-scheduler.service';
+
+describe('ReviewSchedulerService', () => {
+  let service: ReviewSchedulerService;
+
+  const DAY = '2024-03-01T10:00:00.000Z';
+  const daysAfter = (days: number) =>
+    new Date(new Date(DAY).getTime() + days * 24 * 60 * 60 * 1000);
+
+  const answer = (isCorrect: boolean, extra: Partial<Answer> = {}): Answer => ({
+    verb: 'machen',
+    tense: 'präsens',
+    person: 'ich',
+    correctAnswer: 'mache',
+    userAnswer: isCorrect ? 'mache' : 'macht',
+    isCorrect,
+    verb_type: 'weak',
+    difficulty_level: 1,
+    ...extra,
+  });
+
+  const item = () => service.getItem('machen', 'präsens', 'ich');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    TestBed.inject(StorageService).saveReviewSchedule({});
+    service = TestBed.inject(ReviewSchedulerService);
+  });
+
+  it('schedules a recalled form after 1, 6 and then interval × ease days', () => {
+    service.recordAnswers([answer(true)], DAY);
+    expect(item()?.intervalDays).toBe(1);
+    expect(item()?.easeFactor).toBeCloseTo(2.6);
+    expect(item()?.dueDate).toBe(daysAfter(1).toISOString());
+
+    service.recordAnswers([answer(true)], DAY);
+    expect(item()?.intervalDays).toBe(6);
+
+    service.recordAnswers([answer(true)], DAY);
+    expect(item()?.intervalDays).toBe(16); // 6 × 2.7
+    expect(item()?.repetitions).toBe(3);
+  });
+
+  it('grades a recognized option below a recalled form', () => {
+    service.recordAnswers(
+      [answer(true, { questionType: 'multiple-choice' })],
+      DAY
+    );
+
+    expect(item()?.easeFactor).toBeCloseTo(2.5);
+  });
+
+  it('grades a form recalled with hints lower, but still as recalled', () => {
+    service.recordAnswers([answer(true, { hintLevel: 2 })], DAY);
+    expect(item()?.easeFactor).toBeCloseTo(2.36); // quality 3
+    expect(item()?.intervalDays).toBe(1);
+
+    service.recordAnswers([answer(true, { hintLevel: 4 })], DAY);
+    expect(item()?.easeFactor).toBeCloseTo(2.22); // still quality 3
+    expect(item()?.repetitions).toBe(2);
+  });
+
+  it('starts over after a mistake', () => {
+    service.recordAnswers([answer(true), answer(true), answer(false)], DAY);
+
+    expect(item()?.repetitions).toBe(0);
+    expect(item()?.intervalDays).toBe(1);
+    expect(item()?.lapses).toBe(1);
+  });
+
+  it('keeps the ease factor at 1.3 or above', () => {
+    service.recordAnswers(
+      Array.from({ length: 10 }, () => answer(false)),
+      DAY
+    );
+
+    expect(item()?.easeFactor).toBe(1.3);
+  });
+
+  it('leaves out answers that are not active-voice forms', () => {
+    service.recordAnswers(
+      [
+        answer(true, { questionType: 'reverse' }),
+        answer(true, { questionType: 'imperative' }),
+        answer(true, { voice: 'vorgangspassiv' }),
+      ],
+      DAY
+    );
+
+    expect(item()).toBeUndefined();
+  });
+
+  it('lists due cells, most overdue first', () => {
+    service.recordAnswers([answer(true, { person: 'du' })], DAY);
+    service.recordAnswers([answer(false)], daysAfter(-2).toISOString());
+    service.recordAnswers(
+      [answer(true, { person: 'er' })],
+      daysAfter(5).toISOString()
+    );
+
+    expect(service.getDueItems(daysAfter(1)).map((i) => i.person)).toEqual([
+      'ich',
+      'du',
+    ]);
+    expect(service.getDueCount(daysAfter(-2))).toBe(0);
+  });
+});
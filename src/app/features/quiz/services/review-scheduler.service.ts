@@ -0,0 +1,177 @@
+import { Injectable } from '@angular/core';
+import { StorageService } from '../../../core/services/storage.service';
+import {
+  Answer,
+  ReviewItem,
+  ReviewSchedule,
+  TestResult,
+} from '../../../core/models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ReviewSchedulerService {
+  constructor(private storageService: StorageService) {
+    console.log('🔁 ReviewSchedulerService initialized');
+  }
+
+  /**
+   * Build the key used to store a cell in the schedule
+   */
+  getCellKey(verb: string, tense: string, person: string): string {
+    return `${verb}|${tense}|${person}`;
+  }
+
+  /**
+   * Update the schedule with the answers of a finished quiz
+   */
+  recordAnswers(answers: Answer[], reviewedAt: string): void {
+    const schedule = this.storageService.getReviewSchedule();
+
+    answers.forEach((answer) => this.applyAnswer(schedule, answer, reviewedAt));
+
+    this.storageService.saveReviewSchedule(schedule);
+    console.log(`🔁 Review schedule updated with ${answers.length} answers`);
+  }
+
+  /**
+   * Recompute the whole schedule from saved results (oldest first)
+   * Used when history is imported without a schedule
+   */
+  rebuildFromResults(results: TestResult[]): void {
+    const schedule: ReviewSchedule = {};
+
+    [...results]
+      .filter((r) => r.test_type !== 'vocabulary')
+      .sort(
+        (a, b) =>
+          new Date(a.test_date).getTime() - new Date(b.test_date).getTime()
+      )
+      .forEach((result) => {
+        (result.answers as Answer[]).forEach((answer) =>
+          this.applyAnswer(schedule, answer, result.test_date)
+        );
+      });
+
+    this.storageService.saveReviewSchedule(schedule);
+    console.log(
+      `✅ Review schedule rebuilt: ${Object.keys(schedule).length} cells`
+    );
+  }
+
+  /**
+   * Get a single cell's review state
+   */
+  getItem(verb: string, tense: string, person: string): ReviewItem | undefined {
+    return this.storageService.getReviewSchedule()[
+      this.getCellKey(verb, tense, person)
+    ];
+  }
+
+  /**
+   * Get all cells that are due, most overdue first
+   */
+  getDueItems(now: Date = new Date()): ReviewItem[] {
+    const schedule = this.storageService.getReviewSchedule();
+
+    return Object.values(schedule)
+      .filter((item) => new Date(item.dueDate).getTime() <= now.getTime())
+      .sort(
+        (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+      );
+  }
+
+  /**
+   * Get number of cells currently due
+   */
+  getDueCount(now: Date = new Date()): number {
+    return this.getDueItems(now).length;
+  }
+
+  // ==================== PRIVATE HELPER METHODS ====================
+
+  /**
+   * Apply one answer to the schedule using SM-2
+   */
+  private applyAnswer(
+    schedule: ReviewSchedule,
+    answer: Answer,
+    reviewedAt: string
+  ): void {
+    // Reading a form is a different skill from producing it, and
+    // imperatives, principal parts, auxiliaries and passives are drilled
+    // on their own, not from the schedule (its cells are active-voice forms)
+    if (
+      !answer.verb ||
+      !answer.tense ||
+      !answer.person ||
+      answer.questionType === 'reverse' ||
+      answer.questionType === 'imperative' ||
+      answer.questionType === 'principal-parts' ||
+      answer.questionType === 'auxiliary' ||
+      answer.voice
+    ) {
+      return;
+    }
+
+    const key = this.getCellKey(answer.verb, answer.tense, answer.person);
+    const item: ReviewItem = schedule[key] || {
+      verb: answer.verb,
+      tense: answer.tense,
+      person: answer.person,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueDate: reviewedAt,
+      lastReviewed: reviewedAt,
+    };
+
+    const quality = this.getQuality(answer);
+
+    if (quality >= 3) {
+      if (item.repetitions === 0) {
+        item.intervalDays = 1;
+      } else if (item.repetitions === 1) {
+        item.intervalDays = 6;
+      } else {
+        item.intervalDays = Math.round(item.intervalDays * item.easeFactor);
+      }
+      item.repetitions++;
+    } else {
+      item.repetitions = 0;
+      item.intervalDays = 1;
+      item.lapses++;
+    }
+
+    item.easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      item.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    const reviewedTime = new Date(reviewedAt).getTime();
+    item.lastReviewed = reviewedAt;
+    item.dueDate = new Date(
+      reviewedTime + item.intervalDays * DAY_MS
+    ).toISOString();
+
+    schedule[key] = item;
+  }
+
+  /**
+   * Map an answer to an SM-2 quality grade (0-5)
+   * Recognizing a form among options counts less than recalling it,
+   * and each hint level shown lowers the grade, down to a bare pass (3)
+   */
+  private getQuality(answer: Answer): number {
+    if (!answer.isCorrect) {
+      return 1;
+    }
+    const quality = answer.questionType === 'multiple-choice' ? 4 : 5;
+    return Math.max(3, Math.min(quality, 5 - (answer.hintLevel || 0)));
+  }
+}
@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+import { FormReading } from '../../../core/models';
+import { CacheService } from '../../../core/services/cache.service';
+import { provideVerbs } from '../../../testing/verb.fixtures';
+import { VerbService } from './verb.service';
+
+describe('VerbService', () => {
+  let service: VerbService;
+
+  const describeReadings = (readings: FormReading[]) =>
+    readings.map(({ verb, tense, person }) => `${verb} ${tense} ${person}`);
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({ providers: [provideVerbs()] });
+    await TestBed.inject(CacheService).initializeCache();
+    service = TestBed.inject(VerbService);
+  });
+
+  describe('getReadingsForForm', () => {
+    it('finds the stored tenses', () => {
+      expect(describeReadings(service.getReadingsForForm('gibst'))).toEqual([
+        'geben präsens du',
+      ]);
+    });
+
+    it('finds derived tenses sharing a stored form', () => {
+      const readings = describeReadings(service.getReadingsForForm('machte'));
+
+      expect(readings).toContain('machen präteritum ich');
+      expect(readings).toContain('machen konjunktiv2 ich');
+      expect(readings).toContain('machen konjunktiv2 er');
+    });
+
+    it('finds forms that only exist in derived tenses', () => {
+      expect(
+        describeReadings(service.getReadingsForForm('Wird  gegangen sein'))
+      ).toEqual(['gehen futur2 er']);
+      expect(describeReadings(service.getReadingsForForm('gäbe'))).toEqual([
+        'geben konjunktiv2 ich',
+        'geben konjunktiv2 er',
+      ]);
+    });
+  });
+});
@@ -1,12 +1,25 @@
 import { Injectable } from '@angular/core';
 import { CacheService } from '../../../core/services/cache.service';
-import { Verb, VerbFilters } from '../../../core/models';
+import { TenseDerivationService } from '../../../core/services/tense-derivation.service';
+import {
+  FormReading,
+  ImperativeForms,
+  PersonConjugations,
+  PrincipalPart,
+  REFLEXIVE_PRONOUNS,
+  Verb,
+  VerbFilters,
+  Voice,
+} from '../../../core/models';
 
 @Injectable({
   providedIn: 'root',
 })
 export class VerbService {
-  constructor(private cacheService: CacheService) {
+  constructor(
+    private cacheService: CacheService,
+    private tenseDerivation: TenseDerivationService
+  ) {
     console.log('📖 VerbService initialized');
   }
 
@@ -29,6 +42,14 @@ export class VerbService {
     return this.cacheService.getVerbByInfinitive(infinitive);
   }
 
+  /**
+   * Get every (verb, tense, person) a conjugated form can stand for,
+   * in the stored and the derived tenses
+   */
+  getReadingsForForm(form: string): FormReading[] {
+    return this.cacheService.getReadingsForForm(form);
+  }
+
   /**
    * Search verbs by text query (searches infinitive and english translation)
    */
@@ -59,16 +80,174 @@ export class VerbService {
   }
 
   /**
-   * Get a specific conjugation for a verb
+   * Get all forms of a tense for a verb
+   * Compound tenses missing from the data are derived from the perfekt,
+   * as are passive forms
+   */
+  getTenseConjugations(
+    verb: Verb,
+    tense: string,
+    voice: Voice = 'aktiv'
+  ): PersonConjugations | undefined {
+    if (voice !== 'aktiv') {
+      return this.tenseDerivation.derivePassive(verb, voice, tense);
+    }
+
+    return (
+      verb.conjugations[tense] || this.tenseDerivation.deriveTense(verb, tense)
+    );
+  }
+
+  /**
+   * Get a separable verb's form in a main clause (rufe an, habe
+   * angerufen) and a subordinate clause (anrufe, angerufen habe)
+   * Returns undefined for verbs without a separable prefix
+   */
+  getClauseForms(
+    verb: Verb,
+    tense: string,
+    person: string
+  ): { main: string; subordinate: string } | undefined {
+    const form = this.getTenseConjugations(verb, tense)?.[person];
+    if (!form || verb.prefix?.type !== 'separable') {
+      return undefined;
+    }
+
+    // The pronoun is placed per clause: "rufe mich an", "mich anrufe"
+    const pronoun = this.getReflexivePronoun(verb, person);
+    const prefix = verb.prefix.prefix;
+    let words = form
+      .trim()
+      .split(/\s+/)
+      .filter((word) => word !== pronoun);
+
+    // Some stored simple-tense forms keep the prefix attached (abfasse)
+    if (words.length === 1 && words[0].startsWith(prefix)) {
+      words = [words[0].slice(prefix.length), prefix];
+    }
+
+    const [finite, ...rest] = words;
+    const subordinate =
+      rest.length === 1 && rest[0] === prefix
+        ? prefix + finite
+        : [...rest, finite].join(' ');
+
+    return {
+      main: this.addReflexivePronoun(verb, person, words.join(' ')),
+      subordinate: pronoun ? `${pronoun} ${subordinate}` : subordinate,
+    };
+  }
+
+  /**
+   * Get a verb's principal parts from its stored er forms:
+   * präteritum "ging", Partizip II "gegangen", auxiliary "ist"
+   * Returns undefined if präteritum or perfekt is missing
+   */
+  getPrincipalParts(verb: Verb): Record<PrincipalPart, string> | undefined {
+    const past = this.getTenseConjugations(verb, 'präteritum')?.['er'];
+    const perfect = this.getTenseConjugations(verb, 'perfekt')?.['er'];
+    if (!past || !perfect) {
+      return undefined;
+    }
+
+    // Principal parts are quoted without the reflexive pronoun
+    const pronoun = this.getReflexivePronoun(verb, 'er');
+    const toWords = (form: string) =>
+      form
+        .trim()
+        .split(/\s+/)
+        .filter((word) => word !== pronoun);
+
+    let pastWords = toWords(past);
+    const perfectWords = toWords(perfect);
+    if (perfectWords.length < 2) {
+      return undefined;
+    }
+
+    // Some stored forms keep a separable prefix attached (anrichtete)
+    const prefix = verb.prefix?.type === 'separable' ? verb.prefix.prefix : '';
+    if (prefix && pastWords.length === 1 && pastWords[0].startsWith(prefix)) {
+      pastWords = [pastWords[0].slice(prefix.length), prefix];
+    }
+
+    return {
+      präteritum: pastWords.join(' '),
+      partizip: perfectWords[perfectWords.length - 1],
+      auxiliary: perfectWords[0],
+    };
+  }
+
+  /**
+   * Get the imperative forms of a verb, derived if not stored
+   * Reflexive verbs get their pronoun ("wasch dich", "waschen Sie sich")
+   */
+  getImperative(verb: Verb): ImperativeForms | undefined {
+    const forms =
+      verb.imperative || this.tenseDerivation.deriveImperative(verb);
+
+    if (!forms || !verb.reflexive) {
+      return forms;
+    }
+
+    // wir and Sie forms name the subject first: "waschen wir uns"
+    return {
+      du: this.addReflexivePronoun(verb, 'du', forms.du),
+      ihr: this.addReflexivePronoun(verb, 'ihr', forms.ihr),
+      wir: this.addReflexivePronoun(verb, 'wir', forms.wir, 2),
+      Sie: this.addReflexivePronoun(verb, 'Sie', forms.Sie, 2),
+      duAlternative:
+        forms.duAlternative &&
+        this.addReflexivePronoun(verb, 'du', forms.duAlternative),
+    };
+  }
+
+  /**
+   * Get the reflexive pronoun a verb takes for a person (mich, dir, sich)
+   * Returns undefined for verbs that aren't reflexive
+   */
+  getReflexivePronoun(verb: Verb, person: string): string | undefined {
+    if (!verb.reflexive) {
+      return undefined;
+    }
+
+    return REFLEXIVE_PRONOUNS[verb.reflexive_case || 'accusative'][person];
+  }
+
+  /**
+   * Insert the reflexive pronoun after the finite verb
+   * ("wasche mich", "habe mich gewaschen", "rufe mich an")
+   * Forms that already contain it are returned unchanged
+   */
+  addReflexivePronoun(
+    verb: Verb,
+    person: string,
+    form: string,
+    position: number = 1
+  ): string {
+    const pronoun = this.getReflexivePronoun(verb, person);
+    const words = form.trim().split(/\s+/);
+
+    if (!pronoun || words.includes(pronoun)) {
+      return form;
+    }
+
+    words.splice(position, 0, pronoun);
+    return words.join(' ');
+  }
+
+  /**
+   * Get a specific conjugation for a verb, with the reflexive
+   * pronoun for reflexive verbs
    * Returns the conjugated form or undefined if not found
    */
   getConjugation(
     verb: Verb,
     tense: string,
-    person: string
+    person: string,
+    voice: Voice = 'aktiv'
   ): string | undefined {
     // Navigate the nested conjugations structure
-    const tenseConjugations = verb.conjugations[tense];
+    const tenseConjugations = this.getTenseConjugations(verb, tense, voice);
 
     if (!tenseConjugations) {
       console.warn(
@@ -86,7 +265,7 @@ export class VerbService {
       return undefined;
     }
 
-    return conjugatedForm;
+    return this.addReflexivePronoun(verb, person, conjugatedForm);
   }
 
   /**
@@ -106,6 +285,9 @@ export class VerbService {
       Object.keys(verb.conjugations).forEach((tense) => {
         tenseSet.add(tense);
       });
+      this.tenseDerivation
+        .getDerivableTenses(verb)
+        .forEach((tense) => tenseSet.add(tense));
     });
 
     return Array.from(tenseSet).sort();
@@ -171,7 +353,7 @@ export class VerbService {
     persons: string[]
   ): boolean {
     for (const tense of tenses) {
-      const tenseConjugations = verb.conjugations[tense];
+      const tenseConjugations = this.getTenseConjugations(verb, tense);
 
       if (!tenseConjugations) {
         return false;
@@ -202,4 +384,14 @@ export class VerbService {
       this.hasRequiredConjugations(verb, tenses, persons)
     );
   }
+
+  /**
+   * Check if a verb has forms of a voice in any of the tenses
+   * Passive forms are only derived for verbs flagged transitive
+   */
+  hasVoice(verb: Verb, voice: Voice, tenses: string[]): boolean {
+    return tenses.some(
+      (tense) => !!this.getTenseConjugations(verb, tense, voice)
+    );
+  }
 }
@@ -3,7 +3,20 @@ import { CommonModule } from '@angular/common';
 import { Router, ActivatedRoute } from '@angular/router';
 import { ResultsService } from '../../services/results.service';
 import { ConfigService } from '../../../configuration/services/config.service';
-import { TestResult, Answer, VocabAnswer } from '../../../../core/models'; // ADD VocabAnswer
+import { ErrorClassifierService } from '../../../quiz/services/error-classifier.service';
+import { DistractorService } from '../../../quiz/services/distractor.service';
+import { HistoryService } from '../../../history/services/history.service';
+import {
+  TestResult,
+  Answer,
+  QuizTimeLimit,
+  TestConfig,
+  VocabAnswer,
+  ChoiceSource,
+  PrincipalPart,
+} from '../../../../core/models'; // ADD VocabAnswer
+
+const VOICE_SEPARATOR = '|';
 
 @Component({
   selector: 'app-results-summary',
@@ -23,11 +36,22 @@ export class ResultsSummaryComponent implements OnInit {
   showDetailedAnswers = false;
   selectedAnswerIndex: number | null = null;
 
+  // Other quizzes with the same speed-run limit
+  speedRunCount = 0;
+  speedRunBest: number | null = null;
+
+  // Other survival runs with the same configuration
+  survivalRuns = 0;
+  survivalBest: number | null = null;
+
   constructor(
     private route: ActivatedRoute,
     private router: Router,
     private resultsService: ResultsService,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private errorClassifier: ErrorClassifierService,
+    private distractorService: DistractorService,
+    private historyService: HistoryService
   ) {}
 
   ngOnInit(): void {
@@ -49,13 +73,44 @@ export class ResultsSummaryComponent implements OnInit {
       return;
     }
 
+    // Survival runs are compared by questions survived, per configuration
+    if (this.isSurvivalRun) {
+      const record = this.historyService.getSurvivalRecord(this.result);
+      this.survivalRuns = record.runs;
+      this.survivalBest = record.bestScore;
+    }
+
+    // Speed runs are only compared with runs at the same limit
+    if (this.timeLimit) {
+      const others = this.historyService
+        .getComparableResults(this.result)
+        .filter((r) => r.id !== resultId);
+      this.speedRunCount = others.length;
+      this.speedRunBest =
+        others.length > 0 ? Math.max(...others.map((r) => r.percentage)) : null;
+    }
+
     this.loading = false;
   }
 
   // ==================== TYPE GUARDS ====================
 
   get isConjugationQuiz(): boolean {
-    return this.result?.test_type === 'conjugation';
+    return (
+      this.result?.test_type === 'conjugation' ||
+      this.result?.test_type === 'survival'
+    );
+  }
+
+  get isSurvivalRun(): boolean {
+    return this.result?.test_type === 'survival';
+  }
+
+  get isSurvivalBest(): boolean {
+    return (
+      this.survivalBest === null ||
+      (this.result?.score || 0) > this.survivalBest
+    );
   }
 
   get isVocabularyQuiz(): boolean {
@@ -105,13 +160,88 @@ export class ResultsSummaryComponent implements OnInit {
   }
 
   get correctAnswersCount(): number {
-    return this.result?.score || 0;
+    return this.result?.answers.filter((a) => a.isCorrect).length || 0;
   }
 
   get incorrectAnswersCount(): number {
     return (this.result?.total_questions || 0) - this.correctAnswersCount;
   }
 
+  /**
+   * Correct answers given after opening a hint
+   */
+  get assistedAnswersCount(): number {
+    return (
+      (this.result?.answers as Answer[] | undefined)?.filter(
+        (a) => a.isCorrect && a.hintLevel
+      ).length || 0
+    );
+  }
+
+  get unaidedAnswersCount(): number {
+    return this.correctAnswersCount - this.assistedAnswersCount;
+  }
+
+  /**
+   * Points the hint penalty took off the correct answers
+   */
+  get hintPenaltyPoints(): number {
+    const adjustedScore = this.result?.test_configuration?.adjustedScore;
+    if (typeof adjustedScore !== 'number') {
+      return 0;
+    }
+    return Math.round((this.correctAnswersCount - adjustedScore) * 100) / 100;
+  }
+
+  get lenientAnswersCount(): number {
+    return (
+      this.result?.answers.filter((a) => a.isCorrect && a.acceptedLeniently)
+        .length || 0
+    );
+  }
+
+  /**
+   * Seed the quiz was generated with (older results have none)
+   */
+  get seed(): number | null {
+    return this.result?.test_configuration?.seed ?? null;
+  }
+
+  get timeLimit(): QuizTimeLimit | null {
+    return this.result?.test_configuration?.timeLimit || null;
+  }
+
+  /**
+   * Speed-run limit as text ("10 s per question · 2:00 in total")
+   */
+  get timeLimitLabel(): string {
+    const limit = this.timeLimit;
+    if (!limit) return '';
+
+    const parts: string[] = [];
+    if (limit.perQuestionSeconds) {
+      parts.push(`${limit.perQuestionSeconds} s per question`);
+    }
+    if (limit.totalSeconds) {
+      const minutes = Math.floor(limit.totalSeconds / 60);
+      const seconds = (limit.totalSeconds % 60).toString().padStart(2, '0');
+      parts.push(`${minutes}:${seconds} in total`);
+    }
+    return parts.join(' · ');
+  }
+
+  get timedOutCount(): number {
+    return (
+      (this.result?.answers as Answer[] | undefined)?.filter((a) => a.timedOut)
+        .length || 0
+    );
+  }
+
+  get exactQuizConfig(): TestConfig | null {
+    if (!this.isConjugationQuiz) return null;
+    return this.result?.test_configuration?.quizConfig || null;
+  }
+
   get formattedDuration(): string {
     const seconds = this.result?.duration_seconds || 0;
     const minutes = Math.floor(seconds / 60);
@@ -146,7 +276,8 @@ export class ResultsSummaryComponent implements OnInit {
       // Type guard: check if this is a conjugation answer
       if (!('tense' in answer)) return;
 
-      const tense = answer.tense;
+      // Passive answers are grouped apart from the active tense
+      const tense = this.getTenseKey(answer);
       if (!result[tense]) {
         result[tense] = { correct: 0, total: 0 };
       }
@@ -182,6 +313,62 @@ export class ResultsSummaryComponent implements OnInit {
     return result;
   }
 
+  /**
+   * Wrong answers grouped by error category, most frequent first
+   * Auxiliary mix-ups are split by direction ("haben instead of sein")
+   */
+  get mistakePatterns(): { label: string; count: number }[] {
+    if (!this.isConjugationQuiz || !this.result) return [];
+
+    const counts = new Map<string, number>();
+
+    (this.result.answers as Answer[]).forEach((answer) => {
+      if (answer.isCorrect || !answer.errorCategory) return;
+
+      let label = this.errorClassifier.getCategoryLabel(answer.errorCategory);
+      if (answer.errorCategory === 'wrong-auxiliary') {
+        const chosen = this.errorClassifier.getAuxiliary(answer.userAnswer);
+        const expected = this.errorClassifier.getAuxiliary(
+          answer.correctAnswer
+        );
+        if (chosen && expected) {
+          label = `You chose "${chosen}" instead of "${expected}"`;
+        }
+      }
+
+      counts.set(label, (counts.get(label) || 0) + 1);
+    });
+
+    return Array.from(counts.entries())
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Level of each question of an adaptive quiz, in the order asked
+   */
+  get difficultyTrajectory(): {
+    verb: string;
+    level: number;
+    isCorrect: boolean;
+    isRetry: boolean;
+  }[] {
+    if (!this.isConjugationQuiz || !this.result) return [];
+
+    return (this.result.answers as Answer[])
+      .filter((answer) => answer.adaptiveLevel !== undefined)
+      .map((answer) => ({
+        verb: answer.verb,
+        level: answer.adaptiveLevel!,
+        isCorrect: answer.isCorrect,
+        isRetry: answer.isRetry || false,
+      }));
+  }
+
+  getDistractorLabel(source: ChoiceSource): string {
+    return this.distractorService.getSourceLabel(source);
+  }
+
   getPercentage(correct: number, total: number): number {
     return total > 0 ? Math.round((correct / total) * 100) : 0;
   }
@@ -206,6 +393,17 @@ export class ResultsSummaryComponent implements OnInit {
     }
   }
 
+  /**
+   * Regenerate the same questions from the stored config and seed,
+   * without changing the saved configuration
+   */
+  retakeExactQuiz(): void {
+    const config = this.exactQuizConfig;
+    if (!config) return;
+
+    this.router.navigate(['/quiz'], { state: { config } });
+  }
+
   newQuiz(): void {
     // Navigate to config based on quiz type
     if (this.isVocabularyQuiz) {
@@ -249,15 +447,47 @@ export class ResultsSummaryComponent implements OnInit {
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
   }
 
-  getTenseLabel(tense: string): string {
+  /**
+   * Tense of an answer, with its voice if passive ("präsens|vorgangspassiv")
+   */
+  getTenseKey(answer: Answer): string {
+    return answer.voice
+      ? `${answer.tense}${VOICE_SEPARATOR}${answer.voice}`
+      : answer.tense;
+  }
+
+  getTenseLabel(key: string): string {
+    const [tense, voice] = key.split(VOICE_SEPARATOR);
     const labels: { [key: string]: string } = {
       präsens: 'Present',
       präteritum: 'Simple Past',
       perfekt: 'Present Perfect',
       plusquamperfekt: 'Past Perfect',
       futur: 'Future',
+      futur2: 'Future Perfect',
+      imperativ: 'Imperative',
+      stammformen: 'Principal Parts',
+      hilfsverb: 'haben/sein',
+      konjunktiv1: 'Subjunctive I',
+      konjunktiv2: 'Subjunctive II',
+      konjunktiv2past: 'Subjunctive II Past',
+      würde: 'würde + Infinitive',
+    };
+    const voiceLabels: { [key: string]: string } = {
+      vorgangspassiv: 'Passive (werden)',
+      zustandspassiv: 'State Passive (sein)',
+    };
+    const label = labels[tense] || tense;
+    return voice ? `${label} ${voiceLabels[voice] || voice}` : label;
+  }
+
+  getPrincipalPartLabel(part: PrincipalPart): string {
+    const labels: Record<PrincipalPart, string> = {
+      präteritum: 'Präteritum',
+      partizip: 'Partizip II',
+      auxiliary: 'Auxiliary',
     };
-    return labels[tense] || tense;
+    return labels[part] || part;
   }
 
   getVerbTypeLabel(type: string): string {
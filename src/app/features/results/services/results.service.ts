@@ -2,8 +2,9 @@ import { Injectable } from '@angular/core';
 import { Subject, Observable } from 'rxjs';
 import { v4 as uuidv4 } from 'uuid';
 import { StorageService } from '../../../core/services/storage.service';
-import { TestResult } from '../../../core/models';
-import { QuizResult } from '../../quiz/models';
+import { Answer, TestResult, Voice } from '../../../core/models';
+import { Question, QuizResult } from '../../quiz/models';
+import { ReviewSchedulerService } from '../../quiz/services/review-scheduler.service';
 
 @Injectable({
   providedIn: 'root',
@@ -13,7 +14,10 @@ export class ResultsService {
   public resultSaved$: Observable<TestResult> =
     this.resultSavedSubject.asObservable();
 
-  constructor(private storageService: StorageService) {
+  constructor(
+    private storageService: StorageService,
+    private reviewScheduler: ReviewSchedulerService
+  ) {
     console.log('📊 ResultsService initialized');
   }
 
@@ -33,7 +37,7 @@ export class ResultsService {
       id,
       user_id: userId,
       test_date: quizResult.timestamp.toISOString(),
-      test_type: 'conjugation',
+      test_type: quizResult.config?.maxMistakes ? 'survival' : 'conjugation',
       score: quizResult.score,
       total_questions: quizResult.totalQuestions,
       percentage: quizResult.percentage,
@@ -41,19 +45,18 @@ export class ResultsService {
         tenses: this.extractUniqueTenses(quizResult),
         verbTypes: this.extractUniqueVerbTypes(quizResult),
         persons: this.extractUniquePersons(quizResult),
-        questionCount: quizResult.totalQuestions,
+        questionCount: quizResult.questions.length,
         difficultyLevels: this.extractUniqueDifficultyLevels(quizResult),
+        questionType: quizResult.questions[0]?.questionType,
+        voices: this.extractUniqueVoices(quizResult),
+        seed: quizResult.config?.seed,
+        timeLimit: quizResult.config?.timeLimit,
+        maxMistakes: quizResult.config?.maxMistakes,
+        hintPenalty: quizResult.config?.hintPenalty,
+        adjustedScore: quizResult.adjustedScore,
+        quizConfig: quizResult.config,
       },
-      answers: quizResult.questions.map((q) => ({
-        verb: q.verb.infinitive,
-        tense: q.tense,
-        person: q.person,
-        correctAnswer: q.correctAnswer,
-        userAnswer: q.userAnswer || '',
-        isCorrect: q.isCorrect || false,
-        verb_type: q.verb.verb_type, // Add this
-        difficulty_level: q.verb.difficulty_level, // Add this
-      })),
+      answers: quizResult.questions.flatMap((q) => this.toAnswers(q)),
       duration_seconds: quizResult.duration,
       synced: false,
       synced_at: null,
@@ -63,6 +66,12 @@ export class ResultsService {
     // Save to localStorage
     this.storageService.saveTestResult(testResult);
 
+    // Update spaced-repetition schedule
+    this.reviewScheduler.recordAnswers(
+      testResult.answers as Answer[],
+      testResult.test_date
+    );
+
     // Emit event
     this.resultSavedSubject.next(testResult);
 
@@ -215,6 +224,76 @@ export class ResultsService {
 
   // ==================== PRIVATE HELPER METHODS ====================
 
+  /**
+   * Convert a scored question to stored answers
+   * Table questions store one answer per cell, so per-person
+   * statistics keep working; principal parts store one per part
+   */
+  private toAnswers(q: Question): Answer[] {
+    if (q.cells) {
+      return q.cells.map((cell) => ({
+        verb: q.verb.infinitive,
+        tense: q.tense,
+        person: cell.person,
+        correctAnswer: cell.correctAnswer,
+        userAnswer: cell.userAnswer || '',
+        isCorrect: cell.isCorrect || false,
+        verb_type: q.verb.verb_type,
+        difficulty_level: q.verb.difficulty_level,
+        errorCategory: cell.errorCategory,
+        acceptedLeniently: cell.acceptedLeniently,
+        questionType: q.questionType,
+        principalPart: cell.part,
+        timedOut: q.timedOut,
+        hintLevel: q.hintLevel,
+        ...this.toTimings(q),
+      }));
+    }
+
+    return [
+      {
+        verb: q.verb.infinitive,
+        tense: q.tense,
+        person: q.person,
+        voice: q.voice,
+        correctAnswer: q.correctAnswer,
+        userAnswer: q.userAnswer || '',
+        isCorrect: q.isCorrect || false,
+        verb_type: q.verb.verb_type, // Add this
+        difficulty_level: q.verb.difficulty_level, // Add this
+        errorCategory: q.errorCategory,
+        acceptedLeniently: q.acceptedLeniently,
+        questionType: q.questionType,
+        distractorSource: q.isCorrect ? undefined : q.selectedOptionSource,
+        shownForm: q.shownForm,
+        sentence: q.sentence,
+        clause: q.clause,
+        adaptiveLevel: q.adaptiveLevel,
+        isRetry: q.isRetry,
+        timedOut: q.timedOut,
+        hintLevel: q.hintLevel,
+        ...this.toTimings(q),
+      },
+    ];
+  }
+
+  /**
+   * When a question was shown, first typed into and answered, as ISO
+   * dates; table cells share the timings of their question
+   */
+  private toTimings(
+    q: Question
+  ): Pick<Answer, 'shownAt' | 'firstInputAt' | 'answeredAt'> {
+    const toIso = (time?: number) =>
+      time ? new Date(time).toISOString() : undefined;
+
+    return {
+      shownAt: toIso(q.shownAt),
+      firstInputAt: toIso(q.firstInputAt),
+      answeredAt: toIso(q.answeredAt),
+    };
+  }
+
   /**
    * Extract unique tenses from quiz result
    */
@@ -224,6 +303,15 @@ export class ResultsService {
     return Array.from(tenses);
   }
 
+  /**
+   * Extract unique voices from quiz result (active when not set)
+   */
+  private extractUniqueVoices(result: QuizResult): Voice[] {
+    const voices = new Set<Voice>();
+    result.questions.forEach((q) => voices.add(q.voice || 'aktiv'));
+    return Array.from(voices);
+  }
+
   /**
    * Extract unique verb types from quiz result
    */
@@ -238,7 +326,11 @@ export class ResultsService {
    */
   private extractUniquePersons(result: QuizResult): string[] {
     const persons = new Set<string>();
-    result.questions.forEach((q) => persons.add(q.person));
+    result.questions.forEach((q) =>
+      q.cells
+        ? q.cells.forEach((cell) => persons.add(cell.person))
+        : persons.add(q.person)
+    );
     return Array.from(persons);
   }
 
@@ -10,8 +10,10 @@ import { Router, RouterModule } from '@angular/router';
 import { VocabQuizConfigService } from '../../services/vocab-quiz-config.service';
 import { VerbService } from '../../../quiz/services/verb.service';
 import { CustomVerbListService } from '../../services/custom-verb-list.service';
+import { VocabQuizSessionService } from '../../services/vocab-quiz-session.service';
 import {
   VocabQuizConfig,
+  VocabQuizSession,
   DIFFICULTY_LEVEL_OPTIONS,
   DifficultyLevelOption,
   CustomVerbList,
@@ -32,16 +34,19 @@ export class VocabQuizConfigComponent implements OnInit {
   previewVerbs: Verb[] = [];
   showPreview = false;
   customLists: CustomVerbList[] = [];
+  savedSession: VocabQuizSession | null = null; // Unfinished quiz to resume
 
   constructor(
     private fb: FormBuilder,
     private vocabConfigService: VocabQuizConfigService,
     private verbService: VerbService,
     private customListService: CustomVerbListService,
+    private sessionService: VocabQuizSessionService,
     private router: Router
   ) {}
 
   ngOnInit(): void {
+    this.savedSession = this.sessionService.getSession();
     this.loadCustomLists();
     this.initializeForm();
     this.updateAvailableVerbsCount();
@@ -67,6 +72,7 @@ export class VocabQuizConfigComponent implements OnInit {
       includeAllTypes: [savedConfig.includeAllTypes],
       useCustomList: [savedConfig.useCustomList || false],
       customListId: [savedConfig.customListId || null],
+      answerStrictness: [savedConfig.answerStrictness || 'strict'],
     });
   }
 
@@ -183,11 +189,35 @@ export class VocabQuizConfigComponent implements OnInit {
       return;
     }
 
+    // A new quiz replaces the unfinished one, so ask first
+    if (
+      this.savedSession &&
+      !confirm('Start a new quiz? Your unfinished quiz will be discarded.')
+    ) {
+      return;
+    }
+
     // Save config and navigate to test
     this.vocabConfigService.updateConfig(config);
     this.router.navigate(['/vocab-quiz/test']);
   }
 
+  /**
+   * Continue the unfinished quiz where it was left
+   */
+  resumeQuiz(): void {
+    if (this.savedSession) {
+      this.router.navigate(['/vocab-quiz/test'], {
+        state: { sessionId: this.savedSession.id },
+      });
+    }
+  }
+
+  discardSession(): void {
+    this.sessionService.clearSession();
+    this.savedSession = null;
+  }
+
   /**
    * Get difficulty level label
    */
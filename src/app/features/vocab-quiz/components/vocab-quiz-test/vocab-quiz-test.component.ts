@@ -4,8 +4,9 @@ import {
   OnDestroy,
   ViewChild,
   ElementRef,
+  HostListener,
 } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { CommonModule, Location } from '@angular/common';
 import {
   FormBuilder,
   FormGroup,
@@ -15,11 +16,14 @@ import {
 import { Router } from '@angular/router';
 import { VocabQuizConfigService } from '../../services/vocab-quiz-config.service';
 import { CustomVerbListService } from '../../services/custom-verb-list.service';
+import { VocabQuizSessionService } from '../../services/vocab-quiz-session.service';
 import { VerbService } from '../../../quiz/services/verb.service';
 import { StorageService } from '../../../../core/services/storage.service';
 import { AuthService } from '../../../../core/services/auth.service';
-import { VocabQuizState, VocabQuestion } from '../../models';
+import { AnswerMatcherService } from '../../../../core/services/answer-matcher.service';
+import { VocabQuizSession, VocabQuizState, VocabQuestion } from '../../models';
 import { Verb, VerbFilters } from '../../../../core/models';
+import { QuizExitAware } from '../../../../core/guards/quiz-exit.guard';
 import { VocabAnswer } from '../../../../core/models/test-result.model';
 
 @Component({
@@ -29,7 +33,9 @@ import { VocabAnswer } from '../../../../core/models/test-result.model';
   templateUrl: './vocab-quiz-test.component.html',
   styleUrls: ['./vocab-quiz-test.component.scss'],
 })
-export class VocabQuizTestComponent implements OnInit, OnDestroy {
+export class VocabQuizTestComponent
+  implements OnInit, OnDestroy, QuizExitAware
+{
   quizState!: VocabQuizState;
   currentQuestion!: VocabQuestion;
   answerForm!: FormGroup;
@@ -39,6 +45,11 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
   showHint = false;
   private timerInterval: any;
 
+  // Saved session of this quiz; set from router state when resuming
+  private sessionId: string | null = null;
+  private awayMs = 0; // Time between leaving and resuming the quiz
+  private leaving = false;
+
   constructor(
     private fb: FormBuilder,
     private vocabConfigService: VocabQuizConfigService,
@@ -46,8 +57,14 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
     private verbService: VerbService,
     private storageService: StorageService,
     private authService: AuthService,
+    private answerMatcher: AnswerMatcherService,
+    private sessionService: VocabQuizSessionService,
+    private location: Location,
     private router: Router
-  ) {}
+  ) {
+    const state = this.router.getCurrentNavigation()?.extras.state;
+    this.sessionId = (state?.['sessionId'] as string) || null;
+  }
 
   ngOnInit(): void {
     this.initializeQuiz();
@@ -61,6 +78,14 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
   }
 
   private initializeQuiz(): void {
+    // Resume the saved quiz of this page (after a reload, or from the
+    // Resume button on the setup page)
+    const session = this.sessionService.getSession();
+    if (session && session.id === this.sessionId) {
+      this.resumeSession(session);
+      return;
+    }
+
     const config = this.vocabConfigService.getConfig();
     const verbs = this.selectRandomVerbs(config);
 
@@ -82,6 +107,74 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
     };
 
     this.currentQuestion = this.quizState.questions[0];
+    this.startSession();
+  }
+
+  /**
+   * Restore a saved quiz; time away from the quiz doesn't count
+   * towards its duration
+   */
+  private resumeSession(session: VocabQuizSession): void {
+    this.quizState = session.state;
+    this.currentQuestion =
+      this.quizState.questions[this.quizState.currentIndex];
+    this.showFeedback = this.currentQuestion.submitted;
+    this.awayMs =
+      Date.now() -
+      this.quizState.startTime.getTime() -
+      session.elapsedSeconds * 1000;
+  }
+
+  /**
+   * Tie a new quiz to this history entry, so a reload resumes it
+   */
+  private startSession(): void {
+    this.sessionId = crypto.randomUUID();
+    this.location.replaceState(this.location.path(), '', {
+      ...(this.location.getState() as object),
+      sessionId: this.sessionId,
+    });
+    this.saveSession();
+  }
+
+  /**
+   * Save the quiz so far; called on every answer and question change
+   */
+  private saveSession(): void {
+    if (!this.sessionId || !this.quizState || this.leaving) {
+      return;
+    }
+
+    this.sessionService.saveSession({
+      id: this.sessionId,
+      state: this.quizState,
+      elapsedSeconds: this.getElapsedSeconds(),
+    });
+  }
+
+  private getElapsedSeconds(): number {
+    return Math.floor(
+      (Date.now() - this.quizState.startTime.getTime() - this.awayMs) / 1000
+    );
+  }
+
+  @HostListener('window:beforeunload')
+  saveBeforeUnload(): void {
+    this.saveSession();
+  }
+
+  /**
+   * Ask before leaving an unfinished quiz (canDeactivate guard)
+   */
+  canExitQuiz(): boolean {
+    if (!this.quizState || this.leaving) {
+      return true;
+    }
+
+    this.saveSession();
+    return confirm(
+      'Leave this quiz? Your answers are saved, and you can resume it from the quiz setup page.'
+    );
   }
 
   private initializeForm(): void {
@@ -118,10 +211,22 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
     const userAnswer = this.answerForm.get('answer')?.value.trim();
     const correctAnswer = this.currentQuestion.verb.english_translation;
 
-    const isCorrect = this.checkAnswer(userAnswer, correctAnswer);
+    let isCorrect = this.checkAnswer(userAnswer, correctAnswer);
+    let acceptedLeniently = false;
+
+    // Retry with the configured spelling rules (e.g. ae for ä)
+    const strictness = this.vocabConfigService.getConfig().answerStrictness;
+    if (!isCorrect && strictness && strictness !== 'strict') {
+      isCorrect = this.checkAnswer(
+        this.answerMatcher.fold(userAnswer.toLowerCase(), strictness),
+        this.answerMatcher.fold(correctAnswer.toLowerCase(), strictness)
+      );
+      acceptedLeniently = isCorrect;
+    }
 
     this.currentQuestion.userAnswer = userAnswer;
     this.currentQuestion.isCorrect = isCorrect;
+    this.currentQuestion.acceptedLeniently = acceptedLeniently;
     this.currentQuestion.submitted = true;
 
     if (isCorrect) {
@@ -129,6 +234,7 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
     }
 
     this.showFeedback = true;
+    this.saveSession();
 
     // Focus the feedback div so Enter key works
     setTimeout(() => {
@@ -176,6 +282,7 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
       this.quizState.currentIndex++;
       this.currentQuestion =
         this.quizState.questions[this.quizState.currentIndex];
+      this.saveSession();
 
       // Refocus the input field
       setTimeout(() => {
@@ -191,6 +298,8 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
    */
   finishQuiz(): void {
     this.quizState.endTime = new Date();
+    this.leaving = true;
+    this.sessionService.clearSession();
 
     const user = this.authService.getCurrentUser();
     const answers: VocabAnswer[] = this.quizState.questions.map((q) => ({
@@ -198,6 +307,7 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
       correctAnswer: q.verb.english_translation,
       userAnswer: q.userAnswer,
       isCorrect: q.isCorrect || false,
+      acceptedLeniently: q.acceptedLeniently || false,
     }));
 
     const result = {
@@ -211,11 +321,7 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
         (this.quizState.score / this.quizState.questions.length) * 100,
       test_configuration: this.vocabConfigService.getConfig(),
       answers,
-      duration_seconds: Math.floor(
-        (this.quizState.endTime.getTime() -
-          this.quizState.startTime.getTime()) /
-          1000
-      ),
+      duration_seconds: this.getElapsedSeconds(),
       synced: false,
       synced_at: null,
       client_generated_id: crypto.randomUUID(),
@@ -230,6 +336,8 @@ export class VocabQuizTestComponent implements OnInit, OnDestroy {
    */
   quitQuiz(): void {
     if (confirm('Are you sure you want to quit? Your progress will be lost.')) {
+      this.leaving = true;
+      this.sessionService.clearSession();
       this.router.navigate(['/vocab-quiz/config']);
     }
   }
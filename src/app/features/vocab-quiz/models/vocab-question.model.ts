@@ -4,6 +4,7 @@ export interface VocabQuestion {
   verb: Verb;
   userAnswer: string;
   isCorrect?: boolean;
+  acceptedLeniently?: boolean; // Correct only under a lenient spelling rule
   submitted: boolean;
 }
 
@@ -14,3 +15,13 @@ export interface VocabQuizState {
   startTime: Date;
   endTime?: Date;
 }
+
+/**
+ * An unfinished vocabulary quiz, saved on every answer so it can be
+ * resumed after a page reload or an accidental navigation
+ */
+export interface VocabQuizSession {
+  id: string; // Matched against the navigation state when resuming
+  state: VocabQuizState;
+  elapsedSeconds: number; // Time spent in the quiz, not counting time away
+}
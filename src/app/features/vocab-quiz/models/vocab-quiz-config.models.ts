@@ -1,9 +1,12 @@
+import { AnswerStrictness } from '../../../core/models';
+
 export interface VocabQuizConfig {
   verbCount: number; // 5-100
   difficultyLevels: number[]; // [1, 2, 3] where 1=A1-A2, 2=B1-B2, 3=C1-C2
   includeAllTypes: boolean;
   useCustomList: boolean;
   customListId?: string;
+  answerStrictness?: AnswerStrictness; // Spelling rules used when grading
 }
 
 export const DEFAULT_VOCAB_CONFIG: VocabQuizConfig = {
@@ -11,6 +14,7 @@ export const DEFAULT_VOCAB_CONFIG: VocabQuizConfig = {
   difficultyLevels: [1, 2],
   includeAllTypes: true,
   useCustomList: false,
+  answerStrictness: 'strict',
 };
 
 export interface DifficultyLevelOption {
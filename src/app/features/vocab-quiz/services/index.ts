@@ -1,2 +1,3 @@
 export * from './vocab-quiz-config.service';
 export * from './custom-verb-list.service';
+export * from './vocab-quiz-session.service';
@@ -61,7 +61,11 @@ export class VocabQuizConfigService {
       Array.isArray(config.difficultyLevels) &&
       config.difficultyLevels.length > 0 &&
       config.difficultyLevels.every((l: any) => [1, 2, 3].includes(l)) &&
-      typeof config.includeAllTypes === 'boolean'
+      typeof config.includeAllTypes === 'boolean' &&
+      (config.answerStrictness === undefined ||
+        ['strict', 'lenient-transliteration', 'swiss'].includes(
+          config.answerStrictness
+        ))
     );
   }
 }
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { GEBEN } from '../../../testing/verb.fixtures';
+import { VocabQuizSession } from '../models';
+import { VocabQuizSessionService } from './vocab-quiz-session.service';
+
+describe('VocabQuizSessionService', () => {
+  let service: VocabQuizSessionService;
+
+  const session: VocabQuizSession = {
+    id: 'session-1',
+    state: {
+      questions: [
+        {
+          verb: GEBEN,
+          userAnswer: 'to give',
+          isCorrect: true,
+          submitted: true,
+        },
+        { verb: GEBEN, userAnswer: '', submitted: false },
+      ],
+      currentIndex: 1,
+      score: 1,
+      startTime: new Date('2024-03-01T10:00:00.000Z'),
+    },
+    elapsedSeconds: 40,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(VocabQuizSessionService);
+    service.clearSession();
+  });
+
+  it('restores a saved quiz with its start time as a date', () => {
+    service.saveSession(session);
+
+    const restored = service.getSession();
+    expect(restored).toEqual(session);
+    expect(restored?.state.startTime).toBeInstanceOf(Date);
+  });
+
+  it('has no quiz after clearing', () => {
+    service.saveSession(session);
+    service.clearSession();
+
+    expect(service.getSession()).toBeNull();
+  });
+});
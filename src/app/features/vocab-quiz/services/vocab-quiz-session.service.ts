@@ -0,0 +1,45 @@
+import { Injectable } from '@angular/core';
+import { VocabQuizSession } from '../models';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class VocabQuizSessionService {
+  private readonly STORAGE_KEY = 'vocab-quiz-session';
+
+  constructor() {}
+
+  /**
+   * Save the in-progress quiz, replacing any earlier one
+   */
+  saveSession(session: VocabQuizSession): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Error saving vocab quiz session:', error);
+    }
+  }
+
+  /**
+   * Get the unfinished quiz, if there is one (with its dates restored)
+   */
+  getSession(): VocabQuizSession | null {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      if (!saved) {
+        return null;
+      }
+
+      const session = JSON.parse(saved) as VocabQuizSession;
+      session.state.startTime = new Date(session.state.startTime);
+      return session;
+    } catch (error) {
+      console.error('Error loading vocab quiz session:', error);
+      return null;
+    }
+  }
+
+  clearSession(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+}
@@ -0,0 +1,159 @@
+import { Provider } from '@angular/core';
+import { of } from 'rxjs';
+import {
+  PersonConjugations,
+  SentenceTemplate,
+  Verb,
+  VerbType,
+} from '../core/models';
+import { SupabaseService } from '../core/services/supabase.service';
+
+/**
+ * Small verb set for unit tests, stored like the uploaded data:
+ * präsens, präteritum and perfekt only, the other tenses are derived
+ */
+
+const persons = (
+  ich: string,
+  du: string,
+  er: string,
+  wir: string,
+  ihr: string,
+  sie: string = wir
+): PersonConjugations => ({ ich, du, er, wir, ihr, sie });
+
+export function createVerb(
+  infinitive: string,
+  verbType: VerbType,
+  conjugations: Verb['conjugations'],
+  extra: Partial<Verb> = {}
+): Verb {
+  return {
+    id: infinitive,
+    infinitive,
+    english_translation: `to ${infinitive}`,
+    verb_type: verbType,
+    stem: infinitive.replace(/e?n$/, ''),
+    conjugations,
+    difficulty_level: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+/**
+ * Perfekt forms from an auxiliary and the Partizip II
+ */
+function withParticiple(
+  auxiliary: 'haben' | 'sein',
+  participle: string
+): PersonConjugations {
+  const forms =
+    auxiliary === 'haben'
+      ? persons('habe', 'hast', 'hat', 'haben', 'habt')
+      : persons('bin', 'bist', 'ist', 'sind', 'seid');
+  Object.keys(forms).forEach((person) => {
+    forms[person] = `${forms[person]} ${participle}`;
+  });
+  return forms;
+}
+
+export const MACHEN = createVerb('machen', 'weak', {
+  präsens: persons('mache', 'machst', 'macht', 'machen', 'macht'),
+  präteritum: persons('machte', 'machtest', 'machte', 'machten', 'machtet'),
+  perfekt: withParticiple('haben', 'gemacht'),
+});
+
+export const ARBEITEN = createVerb('arbeiten', 'weak', {
+  präsens: persons('arbeite', 'arbeitest', 'arbeitet', 'arbeiten', 'arbeitet'),
+  präteritum: persons(
+    'arbeitete',
+    'arbeitetest',
+    'arbeitete',
+    'arbeiteten',
+    'arbeitetet'
+  ),
+  perfekt: withParticiple('haben', 'gearbeitet'),
+});
+
+export const GEBEN = createVerb('geben', 'strong', {
+  präsens: persons('gebe', 'gibst', 'gibt', 'geben', 'gebt'),
+  präteritum: persons('gab', 'gabst', 'gab', 'gaben', 'gabt'),
+  perfekt: withParticiple('haben', 'gegeben'),
+});
+
+export const GEHEN = createVerb('gehen', 'strong', {
+  präsens: persons('gehe', 'gehst', 'geht', 'gehen', 'geht'),
+  präteritum: persons('ging', 'gingst', 'ging', 'gingen', 'gingt'),
+  perfekt: withParticiple('sein', 'gegangen'),
+});
+
+export const WERDEN = createVerb(
+  'werden',
+  'irregular',
+  {
+    präsens: persons('werde', 'wirst', 'wird', 'werden', 'werdet'),
+    präteritum: persons('wurde', 'wurdest', 'wurde', 'wurden', 'wurdet'),
+    perfekt: withParticiple('sein', 'geworden'),
+  },
+  { stem: 'werd' }
+);
+
+export const ABHOLEN = createVerb(
+  'abholen',
+  'weak',
+  {
+    präsens: persons('hole ab', 'holst ab', 'holt ab', 'holen ab', 'holt ab'),
+    präteritum: persons(
+      'holte ab',
+      'holtest ab',
+      'holte ab',
+      'holten ab',
+      'holtet ab'
+    ),
+    perfekt: withParticiple('haben', 'abgeholt'),
+  },
+  { prefix: { prefix: 'ab', type: 'separable' } }
+);
+
+/**
+ * A separable verb as most of the uploaded data stores it: unsplit
+ * forms and no prefix metadata
+ */
+export const ABFASSEN = createVerb('abfassen', 'weak', {
+  präsens: persons('abfasse', 'abfasst', 'abfasst', 'abfassen', 'abfasst'),
+  präteritum: persons(
+    'abfasste',
+    'abfasstest',
+    'abfasste',
+    'abfassten',
+    'abfasstet'
+  ),
+  perfekt: withParticiple('haben', 'abgefasst'),
+});
+
+export const FIXTURE_VERBS: Verb[] = [
+  MACHEN,
+  ARBEITEN,
+  GEBEN,
+  GEHEN,
+  WERDEN,
+  ABHOLEN,
+];
+
+/**
+ * Serve verbs and sentence templates to CacheService.initializeCache()
+ * instead of Supabase; verbs are copied, as the cache fills in metadata
+ */
+export function provideVerbs(
+  verbs: Verb[] = FIXTURE_VERBS,
+  templates: SentenceTemplate[] = []
+): Provider {
+  return {
+    provide: SupabaseService,
+    useValue: {
+      loadAllVerbs: () => of(verbs.map((verb) => ({ ...verb }))),
+      loadSentenceTemplates: () => of(templates),
+    },
+  };
+}